@@ -4,6 +4,7 @@ import type {
 	LanguageModelV1CallWarning,
 	LanguageModelV1StreamPart,
 } from "@ai-sdk/provider";
+import type { LanguageModelV2 } from "@ai-sdk/provider-v2";
 import type { FetchFunction } from "@ai-sdk/provider-utils";
 
 export class AiGatewayInternalFetchError extends Error {}
@@ -56,7 +57,150 @@ const ProvidersConfigs = [
 	},
 ];
 
-type InternalLanguageModelV1 = LanguageModelV1 & { config?: { fetch?: FetchFunction | undefined } };
+type GatewayModel = {
+	provider: string;
+	config?: { fetch?: FetchFunction | undefined };
+};
+
+type InternalLanguageModelV1 = LanguageModelV1 & GatewayModel;
+
+type InternalLanguageModelV2 = LanguageModelV2 & GatewayModel;
+
+/**
+ * Runs a call through AI Gateway: `run` is called on every model with a fetch that captures
+ * its request, the requests are sent to the gateway as one fallback chain, and `run` is
+ * called again on the model that answered, with the gateway response.
+ */
+async function runThroughGateway<MODEL extends GatewayModel, RESULT>(
+	models: MODEL[],
+	config: AiGatewaySettings,
+	run: (model: MODEL) => PromiseLike<RESULT>,
+): Promise<RESULT> {
+	const requests: { url: string; request: Request; modelProvider: string }[] = [];
+
+	// Model configuration and request collection
+	for (const model of models) {
+		if (!model.config || !Object.keys(model.config).includes("fetch")) {
+			throw new Error(
+				`Sorry, but provider "${model.provider}" is currently not supported, please open a issue in the github repo!`,
+			);
+		}
+
+		model.config.fetch = (url, request) => {
+			requests.push({
+				url: url as string,
+				request: request as Request,
+				modelProvider: model.provider,
+			});
+			throw new AiGatewayInternalFetchError("Stopping provider execution...");
+		};
+
+		try {
+			await run(model);
+		} catch (e) {
+			if (!(e instanceof AiGatewayInternalFetchError)) {
+				throw e;
+			}
+		}
+	}
+
+	// Process requests
+	const body = await Promise.all(
+		requests.map(async (req) => {
+			let providerConfig = null;
+			for (const provider of ProvidersConfigs) {
+				if (req.url.includes(provider.url)) {
+					providerConfig = provider;
+				}
+			}
+
+			if (!providerConfig) {
+				throw new Error(
+					`Sorry, but provider "${req.modelProvider}" is currently not supported, please open a issue in the github repo!`,
+				);
+			}
+
+			if (!req.request.body) {
+				throw new Error("Ai Gateway provider received an unexpected empty body");
+			}
+
+			return {
+				provider: providerConfig.name,
+				endpoint: req.url.replace(providerConfig.url, ""),
+				headers: req.request.headers,
+				query: await streamToObject(req.request.body),
+			};
+		}),
+	);
+
+	// Handle response
+	const headers = parseAiGatewayOptions(config.options ?? {});
+	let resp: Response;
+
+	if ("binding" in config) {
+		const updatedBody = body.map((obj) => ({
+			...obj,
+			headers: {
+				...(obj.headers ?? {}),
+				...Object.fromEntries(headers.entries()),
+			},
+		}));
+		resp = await config.binding.run(updatedBody);
+	} else {
+		headers.set("Content-Type", "application/json");
+		headers.set("cf-aig-authorization", `Bearer ${config.apiKey}`);
+		resp = await fetch(
+			`https://gateway.ai.cloudflare.com/v1/${config.accountId}/${config.gateway}`,
+			{
+				method: "POST",
+				headers: headers,
+				body: JSON.stringify(body),
+			},
+		);
+	}
+
+	// Error handling
+	if (resp.status === 400) {
+		const cloneResp = resp.clone();
+		const result: { success?: boolean; error?: { code: number; message: string }[] } =
+			await cloneResp.json();
+		if (
+			result.success === false &&
+			result.error &&
+			result.error.length > 0 &&
+			result.error[0]?.code === 2001
+		) {
+			throw new AiGatewayDoesNotExist("This AI gateway does not exist");
+		}
+	} else if (resp.status === 401) {
+		const cloneResp = resp.clone();
+		const result: { success?: boolean; error?: { code: number; message: string }[] } =
+			await cloneResp.json();
+		if (
+			result.success === false &&
+			result.error &&
+			result.error.length > 0 &&
+			result.error[0]?.code === 2009
+		) {
+			throw new AiGatewayUnauthorizedError(
+				"Your AI Gateway has authentication active, but you didn't provide a valid apiKey",
+			);
+		}
+	}
+
+	const step = Number.parseInt(resp.headers.get("cf-aig-step") ?? "0");
+	const model = models[step];
+	if (!model) {
+		throw new Error("Unexpected AI Gateway Error");
+	}
+
+	model.config = {
+		...model.config,
+		fetch: (url, req) => resp as unknown as Promise<Response>,
+	};
+
+	return run(model);
+}
 
 export class AiGatewayChatLanguageModel implements LanguageModelV1 {
 	readonly specificationVersion = "v1";
@@ -92,141 +236,69 @@ export class AiGatewayChatLanguageModel implements LanguageModelV1 {
 		options: Parameters<T>[0],
 		modelMethod: "doStream" | "doGenerate",
 	): Promise<Awaited<ReturnType<T>>> {
-		const requests: { url: string; request: Request; modelProvider: string }[] = [];
-
-		// Model configuration and request collection
-		for (const model of this.models) {
-			if (!model.config || !Object.keys(model.config).includes("fetch")) {
-				throw new Error(
-					`Sorry, but provider "${model.provider}" is currently not supported, please open a issue in the github repo!`,
-				);
-			}
-
-			model.config.fetch = (url, request) => {
-				requests.push({
-					url: url as string,
-					request: request as Request,
-					modelProvider: model.provider,
-				});
-				throw new AiGatewayInternalFetchError("Stopping provider execution...");
-			};
+		return runThroughGateway(
+			this.models,
+			this.config,
+			(model) => model[modelMethod](options) as Promise<Awaited<ReturnType<T>>>,
+		);
+	}
 
-			try {
-				await model[modelMethod](options);
-			} catch (e) {
-				if (!(e instanceof AiGatewayInternalFetchError)) {
-					throw e;
-				}
-			}
-		}
+	async doStream(
+		options: Parameters<LanguageModelV1["doStream"]>[0],
+	): Promise<Awaited<ReturnType<LanguageModelV1["doStream"]>>> {
+		return this.processModelRequest<LanguageModelV1["doStream"]>(options, "doStream");
+	}
 
-		// Process requests
-		const body = await Promise.all(
-			requests.map(async (req) => {
-				let providerConfig = null;
-				for (const provider of ProvidersConfigs) {
-					if (req.url.includes(provider.url)) {
-						providerConfig = provider;
-					}
-				}
+	async doGenerate(
+		options: Parameters<LanguageModelV1["doGenerate"]>[0],
+	): Promise<Awaited<ReturnType<LanguageModelV1["doGenerate"]>>> {
+		return this.processModelRequest<LanguageModelV1["doGenerate"]>(options, "doGenerate");
+	}
+}
 
-				if (!providerConfig) {
-					throw new Error(
-						`Sorry, but provider "${req.modelProvider}" is currently not supported, please open a issue in the github repo!`,
-					);
-				}
+/**
+ * The AI Gateway model for AI SDK 5, which falls back between models of the V2 specification.
+ */
+export class AiGatewayChatLanguageModelV2 implements LanguageModelV2 {
+	readonly specificationVersion = "v2";
 
-				if (!req.request.body) {
-					throw new Error("Ai Gateway provider received an unexpected empty body");
-				}
+	// URLs are downloaded by the AI SDK, so that every model of the fallback chain gets the data.
+	readonly supportedUrls = {};
 
-				return {
-					provider: providerConfig.name,
-					endpoint: req.url.replace(providerConfig.url, ""),
-					headers: req.request.headers,
-					query: await streamToObject(req.request.body),
-				};
-			}),
-		);
+	readonly models: InternalLanguageModelV2[];
+	readonly config: AiGatewaySettings;
 
-		// Handle response
-		const headers = parseAiGatewayOptions(this.config.options ?? {});
-		let resp: Response;
-
-		if ("binding" in this.config) {
-			const updatedBody = body.map((obj) => ({
-				...obj,
-				headers: {
-					...(obj.headers ?? {}),
-					...Object.fromEntries(headers.entries()),
-				},
-			}));
-			resp = await this.config.binding.run(updatedBody);
-		} else {
-			headers.set("Content-Type", "application/json");
-			headers.set("cf-aig-authorization", `Bearer ${this.config.apiKey}`);
-			resp = await fetch(
-				`https://gateway.ai.cloudflare.com/v1/${this.config.accountId}/${this.config.gateway}`,
-				{
-					method: "POST",
-					headers: headers,
-					body: JSON.stringify(body),
-				},
-			);
+	get modelId(): string {
+		if (!this.models[0]) {
+			throw new Error("models cannot be empty array");
 		}
 
-		// Error handling
-		if (resp.status === 400) {
-			const cloneResp = resp.clone();
-			const result: { success?: boolean; error?: { code: number; message: string }[] } =
-				await cloneResp.json();
-			if (
-				result.success === false &&
-				result.error &&
-				result.error.length > 0 &&
-				result.error[0]?.code === 2001
-			) {
-				throw new AiGatewayDoesNotExist("This AI gateway does not exist");
-			}
-		} else if (resp.status === 401) {
-			const cloneResp = resp.clone();
-			const result: { success?: boolean; error?: { code: number; message: string }[] } =
-				await cloneResp.json();
-			if (
-				result.success === false &&
-				result.error &&
-				result.error.length > 0 &&
-				result.error[0]?.code === 2009
-			) {
-				throw new AiGatewayUnauthorizedError(
-					"Your AI Gateway has authentication active, but you didn't provide a valid apiKey",
-				);
-			}
-		}
+		return this.models[0].modelId;
+	}
 
-		const step = Number.parseInt(resp.headers.get("cf-aig-step") ?? "0");
-		if (!this.models[step]) {
-			throw new Error("Unexpected AI Gateway Error");
+	get provider(): string {
+		if (!this.models[0]) {
+			throw new Error("models cannot be empty array");
 		}
 
-		this.models[step].config = {
-			...this.models[step].config,
-			fetch: (url, req) => resp as unknown as Promise<Response>,
-		};
+		return this.models[0].provider;
+	}
 
-		return this.models[step][modelMethod](options) as Promise<Awaited<ReturnType<T>>>;
+	constructor(models: LanguageModelV2[], config: AiGatewaySettings) {
+		this.models = models;
+		this.config = config;
 	}
 
 	async doStream(
-		options: Parameters<LanguageModelV1["doStream"]>[0],
-	): Promise<Awaited<ReturnType<LanguageModelV1["doStream"]>>> {
-		return this.processModelRequest<LanguageModelV1["doStream"]>(options, "doStream");
+		options: Parameters<LanguageModelV2["doStream"]>[0],
+	): Promise<Awaited<ReturnType<LanguageModelV2["doStream"]>>> {
+		return runThroughGateway(this.models, this.config, (model) => model.doStream(options));
 	}
 
 	async doGenerate(
-		options: Parameters<LanguageModelV1["doGenerate"]>[0],
-	): Promise<Awaited<ReturnType<LanguageModelV1["doGenerate"]>>> {
-		return this.processModelRequest<LanguageModelV1["doGenerate"]>(options, "doGenerate");
+		options: Parameters<LanguageModelV2["doGenerate"]>[0],
+	): Promise<Awaited<ReturnType<LanguageModelV2["doGenerate"]>>> {
+		return runThroughGateway(this.models, this.config, (model) => model.doGenerate(options));
 	}
 }
 
@@ -236,6 +308,12 @@ export interface AiGateway {
 	chat(models: LanguageModelV1 | LanguageModelV1[]): LanguageModelV1;
 }
 
+export interface AiGatewayV2 {
+	(models: LanguageModelV2 | LanguageModelV2[]): LanguageModelV2;
+
+	chat(models: LanguageModelV2 | LanguageModelV2[]): LanguageModelV2;
+}
+
 export type AiGatewayReties = {
 	maxAttempts?: 1 | 2 | 3 | 4 | 5;
 	retryDelayMs?: number;
@@ -277,6 +355,21 @@ export function createAiGateway(options: AiGatewaySettings): AiGateway {
 	return provider;
 }
 
+/**
+ * Creates an AI Gateway provider for AI SDK 5, which takes models of the V2 specification.
+ */
+export function createAiGatewayV2(options: AiGatewaySettings): AiGatewayV2 {
+	const createChatModel = (models: LanguageModelV2 | LanguageModelV2[]) => {
+		return new AiGatewayChatLanguageModelV2(Array.isArray(models) ? models : [models], options);
+	};
+
+	const provider = (models: LanguageModelV2 | LanguageModelV2[]) => createChatModel(models);
+
+	provider.chat = createChatModel;
+
+	return provider;
+}
+
 export function parseAiGatewayOptions(options: AiGatewayOptions): Headers {
 	const headers = new Headers();
 
@@ -0,0 +1,103 @@
+import type { LanguageModelV2, LanguageModelV2CallOptions } from "@ai-sdk/provider-v2";
+import type { FetchFunction } from "@ai-sdk/provider-utils";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { createAiGatewayV2 } from "../src";
+
+const TEST_ACCOUNT_ID = "test-account-id";
+const TEST_API_KEY = "test-api-key";
+const TEST_GATEWAY = "my-gateway";
+
+const call: LanguageModelV2CallOptions = {
+	prompt: [{ role: "user", content: [{ type: "text", text: "Write a greeting" }] }],
+};
+
+/**
+ * A V2 model that calls an OpenAI-compatible API through the fetch of its config, like the
+ * models of the AI SDK 5 providers.
+ */
+function createChatModel(
+	modelId: string,
+	baseURL: string,
+): LanguageModelV2 & { config: { fetch?: FetchFunction } } {
+	const model = {
+		specificationVersion: "v2" as const,
+		provider: `${modelId}.chat`,
+		modelId,
+		supportedUrls: {},
+		// The providers of the AI SDK keep the fetch option in their config, even when unset.
+		config: { fetch: undefined } as { fetch?: FetchFunction },
+
+		async doGenerate() {
+			const response = await (model.config.fetch ?? fetch)(`${baseURL}chat/completions`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					model: modelId,
+					messages: [{ role: "user", content: "Write a greeting" }],
+				}),
+			});
+			const body = await response.json();
+
+			return {
+				content: [{ type: "text" as const, text: body.choices[0].message.content }],
+				finishReason: "stop" as const,
+				usage: { inputTokens: undefined, outputTokens: undefined, totalTokens: undefined },
+				warnings: [],
+			};
+		},
+
+		async doStream(): Promise<never> {
+			throw new Error("not used");
+		},
+	};
+
+	return model;
+}
+
+const server = setupServer();
+
+describe("V2 Text Generation Tests", () => {
+	beforeAll(() => server.listen());
+	afterEach(() => server.resetHandlers());
+	afterAll(() => server.close());
+
+	it("should send the requests of all models and answer with the model of the gateway step", async () => {
+		let capturedBody: any = null;
+
+		server.use(
+			http.post(
+				`https://gateway.ai.cloudflare.com/v1/${TEST_ACCOUNT_ID}/${TEST_GATEWAY}`,
+				async ({ request }) => {
+					capturedBody = await request.json();
+					return HttpResponse.json(
+						{ choices: [{ index: 0, message: { role: "assistant", content: "Hi!" } }] },
+						{ headers: { "cf-aig-step": "1" } },
+					);
+				},
+			),
+		);
+
+		const aigateway = createAiGatewayV2({
+			accountId: TEST_ACCOUNT_ID,
+			gateway: TEST_GATEWAY,
+			apiKey: TEST_API_KEY,
+		});
+		const fallback = createChatModel("mistral", "https://api.mistral.ai/v1/");
+		const model = aigateway([
+			createChatModel("openai", "https://api.openai.com/v1/"),
+			fallback,
+		]);
+
+		const result = await model.doGenerate(call);
+
+		expect(model.specificationVersion).toBe("v2");
+		expect(model.modelId).toBe("openai");
+		expect(capturedBody).toMatchObject([
+			{ provider: "openai", endpoint: "v1/chat/completions", query: { model: "openai" } },
+			{ provider: "mistral", endpoint: "v1/chat/completions", query: { model: "mistral" } },
+		]);
+		expect(result.content).toEqual([{ type: "text", text: "Hi!" }]);
+	});
+});
@@ -0,0 +1,40 @@
+import type { LanguageModelV2, LanguageModelV2CallOptions } from "@ai-sdk/provider-v2";
+import { type AutoRAGChatConfig, AutoRAGChatLanguageModel } from "./autorag-chat-language-model";
+import type { AutoRAGChatSettings } from "./autorag-chat-settings";
+import { doGenerateV2, doStreamV2 } from "./language-model-v2-adapter";
+import type { TextGenerationModels } from "./workersai-models";
+
+/**
+ * The AutoRAG chat model for AI SDK 5. The files that answers are based on are returned as
+ * source parts.
+ */
+export class AutoRAGChatLanguageModelV2 implements LanguageModelV2 {
+	readonly specificationVersion = "v2";
+	readonly supportedUrls = {};
+
+	private readonly model: AutoRAGChatLanguageModel;
+
+	constructor(
+		readonly modelId: TextGenerationModels,
+		readonly settings: AutoRAGChatSettings,
+		config: AutoRAGChatConfig,
+	) {
+		this.model = new AutoRAGChatLanguageModel(modelId, settings, config);
+	}
+
+	get provider(): string {
+		return this.model.provider;
+	}
+
+	async doGenerate(
+		options: LanguageModelV2CallOptions,
+	): Promise<Awaited<ReturnType<LanguageModelV2["doGenerate"]>>> {
+		return doGenerateV2(this.model, options);
+	}
+
+	async doStream(
+		options: LanguageModelV2CallOptions,
+	): Promise<Awaited<ReturnType<LanguageModelV2["doStream"]>>> {
+		return doStreamV2(this.model, options);
+	}
+}
@@ -5,13 +5,17 @@ import {
 } from "@ai-sdk/provider";
 
 import type { AutoRAGChatSettings } from "./autorag-chat-settings";
-import { convertToWorkersAIChatMessages } from "./convert-to-workersai-chat-messages";
+import {
+	convertToWorkersAIChatMessages,
+	getMessageText,
+} from "./convert-to-workersai-chat-messages";
+import { getWorkersAIFinishReason, mapWorkersAIFinishReason } from "./map-workersai-finish-reason";
 import { mapWorkersAIUsage } from "./map-workersai-usage";
 import { getMappedStream } from "./streaming";
 import { prepareToolsAndToolChoice, processToolCalls } from "./utils";
 import type { TextGenerationModels } from "./workersai-models";
 
-type AutoRAGChatConfig = {
+export type AutoRAGChatConfig = {
 	provider: string;
 	binding: AutoRAG;
 	gateway?: GatewayOptions;
@@ -42,7 +46,6 @@ export class AutoRAGChatLanguageModel implements LanguageModelV1 {
 
 	private getArgs({
 		mode,
-		prompt,
 		frequencyPenalty,
 		presencePenalty,
 	}: Parameters<LanguageModelV1["doGenerate"]>[0]) {
@@ -67,9 +70,6 @@ export class AutoRAGChatLanguageModel implements LanguageModelV1 {
 		const baseArgs = {
 			// model id:
 			model: this.modelId,
-
-			// messages:
-			messages: convertToWorkersAIChatMessages(prompt),
 		};
 
 		switch (type) {
@@ -125,17 +125,24 @@ export class AutoRAGChatLanguageModel implements LanguageModelV1 {
 	): Promise<Awaited<ReturnType<LanguageModelV1["doGenerate"]>>> {
 		const { args, warnings } = this.getArgs(options);
 
-		const { messages } = convertToWorkersAIChatMessages(options.prompt);
+		const { messages } = await convertToWorkersAIChatMessages(options.prompt);
 
 		const output = await this.config.binding.aiSearch({
-			query: messages.map(({ content, role }) => `${role}: ${content}`).join("\n\n"),
+			query: messages
+				.map((message) => `${message.role}: ${getMessageText(message)}`)
+				.join("\n\n"),
 		});
 
+		const toolCalls = processToolCalls(output);
+
 		return {
 			text: output.response,
-			toolCalls: processToolCalls(output),
-			finishReason: "stop", // TODO: mapWorkersAIFinishReason(response.finish_reason),
-			rawCall: { rawPrompt: args.messages, rawSettings: args },
+			toolCalls,
+			finishReason:
+				toolCalls.length > 0
+					? "tool-calls"
+					: mapWorkersAIFinishReason(getWorkersAIFinishReason(output)),
+			rawCall: { rawPrompt: messages, rawSettings: args },
 			usage: mapWorkersAIUsage(output),
 			warnings,
 			sources: output.data.map(({ file_id, filename, score }) => ({
@@ -154,9 +161,11 @@ export class AutoRAGChatLanguageModel implements LanguageModelV1 {
 	): Promise<Awaited<ReturnType<LanguageModelV1["doStream"]>>> {
 		const { args, warnings } = this.getArgs(options);
 
-		const { messages } = convertToWorkersAIChatMessages(options.prompt);
+		const { messages } = await convertToWorkersAIChatMessages(options.prompt);
 
-		const query = messages.map(({ content, role }) => `${role}: ${content}`).join("\n\n");
+		const query = messages
+			.map((message) => `${message.role}: ${getMessageText(message)}`)
+			.join("\n\n");
 
 		const response = await this.config.binding.aiSearch({
 			query,
@@ -165,7 +174,7 @@ export class AutoRAGChatLanguageModel implements LanguageModelV1 {
 
 		return {
 			stream: getMappedStream(response),
-			rawCall: { rawPrompt: args.messages, rawSettings: args },
+			rawCall: { rawPrompt: messages, rawSettings: args },
 			warnings,
 		};
 	}
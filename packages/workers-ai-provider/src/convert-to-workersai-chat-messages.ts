@@ -1,20 +1,36 @@
 import type { LanguageModelV1Prompt, LanguageModelV1ProviderMetadata } from "@ai-sdk/provider";
-import type { WorkersAIChatPrompt } from "./workersai-chat-prompt";
+import { convertUint8ArrayToBase64 } from "@ai-sdk/provider-utils";
+import { type LoadImageOptions, loadImagePart } from "./load-image-part";
+import type {
+	WorkersAIChatPrompt,
+	WorkersAIToolCall,
+	WorkersAIUserContentPart,
+} from "./workersai-chat-prompt";
+import type { WorkersAIToolCallFormat } from "./workersai-model-capabilities";
 
-export function convertToWorkersAIChatMessages(prompt: LanguageModelV1Prompt): {
+export type WorkersAIChatImage = {
+	mimeType: string;
+	image: Uint8Array;
+	providerMetadata: LanguageModelV1ProviderMetadata | undefined;
+};
+
+export type ConvertToWorkersAIChatMessagesOptions = LoadImageOptions & {
+	/**
+	 * How earlier tool calls and results are sent to the model. Defaults to `openai`.
+	 */
+	toolCallFormat?: WorkersAIToolCallFormat;
+};
+
+export async function convertToWorkersAIChatMessages(
+	prompt: LanguageModelV1Prompt,
+	options: ConvertToWorkersAIChatMessagesOptions = {},
+): Promise<{
 	messages: WorkersAIChatPrompt;
-	images: {
-		mimeType: string | undefined;
-		image: Uint8Array;
-		providerMetadata: LanguageModelV1ProviderMetadata | undefined;
-	}[];
-} {
+	images: WorkersAIChatImage[];
+}> {
+	const { toolCallFormat = "openai" } = options;
 	const messages: WorkersAIChatPrompt = [];
-	const images: {
-		mimeType: string | undefined;
-		image: Uint8Array;
-		providerMetadata: LanguageModelV1ProviderMetadata | undefined;
-	}[] = [];
+	const images: WorkersAIChatImage[] = [];
 
 	for (const { role, content } of prompt) {
 		switch (role) {
@@ -24,41 +40,50 @@ export function convertToWorkersAIChatMessages(prompt: LanguageModelV1Prompt): {
 			}
 
 			case "user": {
+				const parts: WorkersAIUserContentPart[] = [];
+
+				for (const part of content) {
+					switch (part.type) {
+						case "text": {
+							parts.push({ type: "text", text: part.text });
+							break;
+						}
+						case "image": {
+							// Keep the image in place so that it stays next to the text it belongs to.
+							const { image, mimeType } = await loadImagePart(
+								part.image,
+								part.mimeType,
+								options,
+							);
+							images.push({
+								mimeType,
+								image,
+								providerMetadata: part.providerMetadata,
+							});
+							parts.push({
+								type: "image_url",
+								image_url: {
+									url: `data:${mimeType};base64,${convertUint8ArrayToBase64(image)}`,
+								},
+							});
+							break;
+						}
+					}
+				}
+
 				messages.push({
 					role: "user",
-					content: content
-						.map((part) => {
-							switch (part.type) {
-								case "text": {
-									return part.text;
-								}
-								case "image": {
-									// Extract image from this part
-									if (part.image instanceof Uint8Array) {
-										// Store the image data directly as Uint8Array
-										// For Llama 3.2 Vision model, which needs array of integers
-										images.push({
-											mimeType: part.mimeType,
-											image: part.image,
-											providerMetadata: part.providerMetadata,
-										});
-									}
-									return ""; // No text for the image part
-								}
-							}
-						})
-						.join("\n"),
+					// Plain text turns are sent as a string, which every text model accepts.
+					content: parts.some((part) => part.type === "image_url")
+						? parts
+						: joinTextParts(parts),
 				});
 				break;
 			}
 
 			case "assistant": {
 				let text = "";
-				const toolCalls: Array<{
-					id: string;
-					type: "function";
-					function: { name: string; arguments: string };
-				}> = [];
+				const toolCalls: WorkersAIToolCall[] = [];
 
 				for (const part of content) {
 					switch (part.type) {
@@ -67,21 +92,21 @@ export function convertToWorkersAIChatMessages(prompt: LanguageModelV1Prompt): {
 							break;
 						}
 						case "tool-call": {
-							text = JSON.stringify({
-								name: part.toolName,
-								parameters: part.args,
-							});
-
 							toolCalls.push({
-								id: part.toolCallId,
+								id: formatToolCallId(part.toolCallId, toolCallFormat),
 								type: "function",
 								function: {
 									name: part.toolName,
-									arguments: JSON.stringify(part.args),
+									arguments: JSON.stringify(part.args ?? {}),
 								},
 							});
 							break;
 						}
+						case "reasoning":
+						case "redacted-reasoning": {
+							// Earlier reasoning is not sent back to the model.
+							break;
+						}
 						default: {
 							const exhaustiveCheck = part;
 							throw new Error(`Unsupported part: ${exhaustiveCheck}`);
@@ -91,15 +116,8 @@ export function convertToWorkersAIChatMessages(prompt: LanguageModelV1Prompt): {
 
 				messages.push({
 					role: "assistant",
-					content: text,
-					tool_calls:
-						toolCalls.length > 0
-							? toolCalls.map(({ function: { name, arguments: args } }) => ({
-									id: "null",
-									type: "function",
-									function: { name, arguments: args },
-								}))
-							: undefined,
+					content: formatAssistantContent(text, toolCalls, toolCallFormat),
+					tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
 				});
 
 				break;
@@ -108,6 +126,7 @@ export function convertToWorkersAIChatMessages(prompt: LanguageModelV1Prompt): {
 				for (const toolResponse of content) {
 					messages.push({
 						role: "tool",
+						tool_call_id: formatToolCallId(toolResponse.toolCallId, toolCallFormat),
 						name: toolResponse.toolName,
 						content: JSON.stringify(toolResponse.result),
 					});
@@ -123,3 +142,59 @@ export function convertToWorkersAIChatMessages(prompt: LanguageModelV1Prompt): {
 
 	return { messages, images };
 }
+
+/**
+ * Joins the text parts of a user message, dropping any images.
+ */
+export function joinTextParts(parts: WorkersAIUserContentPart[]): string {
+	return parts.map((part) => (part.type === "text" ? part.text : "")).join("\n");
+}
+
+/**
+ * Returns the text content of a converted message, dropping any images.
+ */
+export function getMessageText({ content }: WorkersAIChatPrompt[number]): string {
+	return typeof content === "string" ? content : joinTextParts(content);
+}
+
+/**
+ * Mistral models only accept tool call ids of 9 letters and digits. Other ids are hashed into
+ * that shape, the same way for a call and its result.
+ */
+function formatToolCallId(toolCallId: string, format: WorkersAIToolCallFormat): string {
+	if (format !== "mistral" || /^[a-zA-Z0-9]{9}$/.test(toolCallId)) {
+		return toolCallId;
+	}
+
+	// 32-bit FNV-1a hash
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < toolCallId.length; i++) {
+		hash ^= toolCallId.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+
+	return (hash >>> 0).toString(36).padStart(9, "0");
+}
+
+/**
+ * Returns the content of an assistant message. Models that write their tool calls as text
+ * also get the earlier calls written into the content, in their own syntax.
+ */
+function formatAssistantContent(
+	text: string,
+	toolCalls: WorkersAIToolCall[],
+	format: WorkersAIToolCallFormat,
+): string {
+	const formattedCalls = toolCalls.map(({ function: { name, arguments: args } }) => {
+		switch (format) {
+			case "llama":
+				return JSON.stringify({ name, parameters: JSON.parse(args) });
+			case "hermes":
+				return `<tool_call>\n${JSON.stringify({ name, arguments: JSON.parse(args) })}\n</tool_call>`;
+			default:
+				return undefined;
+		}
+	});
+
+	return [text, ...formattedCalls].filter(Boolean).join("\n");
+}
@@ -0,0 +1,135 @@
+import { type LanguageModelV1Prompt, UnsupportedFunctionalityError } from "@ai-sdk/provider";
+
+export type WorkersAICompletionMessage = {
+	role: "system" | "user" | "assistant";
+	content: string;
+};
+
+/**
+ * Flattens the messages of a prompt into the text that is sent to a completion model.
+ */
+export type WorkersAICompletionTemplate = (messages: WorkersAICompletionMessage[]) => string;
+
+export function convertToWorkersAICompletionPrompt({
+	prompt,
+	inputFormat,
+	template = defaultCompletionTemplate,
+}: {
+	prompt: LanguageModelV1Prompt;
+	inputFormat: "prompt" | "messages";
+	template?: WorkersAICompletionTemplate;
+}): {
+	prompt: string;
+	stopSequences?: string[];
+} {
+	const messages = convertToWorkersAICompletionMessages(prompt);
+
+	// A plain text prompt is sent as is, e.g. the code before the cursor for autocompletion.
+	const [first] = messages;
+	if (inputFormat === "prompt" && messages.length === 1 && first?.role === "user") {
+		return { prompt: first.content };
+	}
+
+	if (template !== defaultCompletionTemplate) {
+		return { prompt: template(messages) };
+	}
+
+	return {
+		prompt: defaultCompletionTemplate(messages),
+		stopSequences: ["\nuser:"],
+	};
+}
+
+/**
+ * Converts a prompt to text messages. Completion models take no images or tool calls.
+ */
+export function convertToWorkersAICompletionMessages(
+	prompt: LanguageModelV1Prompt,
+): WorkersAICompletionMessage[] {
+	const messages: WorkersAICompletionMessage[] = [];
+
+	for (const { role, content } of prompt) {
+		switch (role) {
+			case "system": {
+				messages.push({ role: "system", content });
+				break;
+			}
+
+			case "user": {
+				const text = content
+					.map((part) => {
+						switch (part.type) {
+							case "text": {
+								return part.text;
+							}
+							case "image": {
+								throw new UnsupportedFunctionalityError({
+									functionality: "images",
+								});
+							}
+							default: {
+								throw new UnsupportedFunctionalityError({
+									functionality: `${part.type} parts`,
+								});
+							}
+						}
+					})
+					.join("");
+
+				messages.push({ role: "user", content: text });
+				break;
+			}
+
+			case "assistant": {
+				const text = content
+					.map((part) => {
+						switch (part.type) {
+							case "text": {
+								return part.text;
+							}
+							case "tool-call": {
+								throw new UnsupportedFunctionalityError({
+									functionality: "tool-call messages",
+								});
+							}
+							default: {
+								// Earlier reasoning is not sent back to the model.
+								return "";
+							}
+						}
+					})
+					.join("");
+
+				messages.push({ role: "assistant", content: text });
+				break;
+			}
+
+			case "tool": {
+				throw new UnsupportedFunctionalityError({
+					functionality: "tool messages",
+				});
+			}
+
+			default: {
+				const exhaustiveCheck = role satisfies never;
+				throw new Error(`Unsupported role: ${exhaustiveCheck}`);
+			}
+		}
+	}
+
+	return messages;
+}
+
+/**
+ * Writes the system message first, followed by the turns labelled with `user:` and
+ * `assistant:`, and ends with an open assistant turn.
+ */
+function defaultCompletionTemplate(messages: WorkersAICompletionMessage[]): string {
+	let text = "";
+
+	for (const { role, content } of messages) {
+		text += role === "system" ? `${content}\n\n` : `${role}:\n${content}\n\n`;
+	}
+
+	return `${text}assistant:\n`;
+}
@@ -0,0 +1,219 @@
+import type { LanguageModelV1FunctionToolCall } from "@ai-sdk/provider";
+import { generateId, safeParseJSON } from "@ai-sdk/provider-utils";
+import type { WorkersAIChatPrompt } from "./workersai-chat-prompt";
+
+export type EmulatedTool = {
+	type: string;
+	function: { name: string; description?: string; parameters?: unknown };
+};
+
+const toolCallPattern = /<tool_call>([\s\S]*?)(?:<\/tool_call>|$)/g;
+
+/**
+ * Prepares the messages for a model that calls tools through its text output. The tool
+ * definitions go into the system prompt, and earlier tool calls and results are written as
+ * text, since such models do not understand the `tool` role. Without tools, only the earlier
+ * calls and results are rewritten.
+ */
+export function injectToolPrompt(
+	messages: WorkersAIChatPrompt,
+	tools: EmulatedTool[],
+	toolChoice: string | undefined,
+): WorkersAIChatPrompt {
+	const result: WorkersAIChatPrompt = [];
+
+	for (const [index, message] of messages.entries()) {
+		switch (message.role) {
+			case "assistant": {
+				result.push({
+					role: "assistant",
+					content: [
+						message.content,
+						...(message.tool_calls ?? []).map(
+							({ function: { name, arguments: args } }) =>
+								`<tool_call>${JSON.stringify({ name, arguments: JSON.parse(args) })}</tool_call>`,
+						),
+					]
+						.filter(Boolean)
+						.join("\n"),
+				});
+				break;
+			}
+
+			case "tool": {
+				const toolResult = `<tool_result name="${message.name}">${message.content}</tool_result>`;
+
+				// Results of parallel calls go into a single turn.
+				if (messages[index - 1]?.role === "tool") {
+					const previous = result.pop()!;
+					result.push({ role: "user", content: `${previous.content}\n${toolResult}` });
+				} else {
+					result.push({ role: "user", content: toolResult });
+				}
+				break;
+			}
+
+			default: {
+				result.push(message);
+			}
+		}
+	}
+
+	if (tools.length === 0) {
+		return result;
+	}
+
+	const toolPrompt = getToolPrompt(tools, toolChoice);
+	const [first] = result;
+
+	if (first?.role === "system") {
+		result[0] = { role: "system", content: `${first.content}\n\n${toolPrompt}` };
+	} else {
+		result.unshift({ role: "system", content: toolPrompt });
+	}
+
+	return result;
+}
+
+function getToolPrompt(tools: EmulatedTool[], toolChoice: string | undefined) {
+	const definitions = tools.map(({ function: { name, description, parameters } }) => ({
+		name,
+		description,
+		parameters,
+	}));
+
+	return [
+		"You have access to the following tools:",
+		JSON.stringify(definitions),
+		"To call a tool, respond with one line of the following form for each call, and nothing else:",
+		'<tool_call>{"name": "tool name", "arguments": {"argument name": "value"}}</tool_call>',
+		"The results of the calls are sent back in <tool_result> tags.",
+		toolChoice === "any"
+			? "You must call at least one tool."
+			: "If you do not need a tool, answer directly.",
+	].join("\n");
+}
+
+/**
+ * Parses the tool calls that a model wrote into its text output. Malformed JSON is repaired
+ * where possible. Calls of unknown tools are left in the text.
+ */
+export function parseEmulatedToolCalls(
+	text: string,
+	tools: EmulatedTool[],
+): { text: string; toolCalls: LanguageModelV1FunctionToolCall[] } {
+	const toolNames = tools.map((tool) => tool.function.name);
+	const toolCalls: LanguageModelV1FunctionToolCall[] = [];
+
+	let remainingText = text.replace(toolCallPattern, (match, body: string) => {
+		const toolCall = parseToolCall(body, toolNames);
+		if (!toolCall) {
+			return match;
+		}
+		toolCalls.push(toolCall);
+		return "";
+	});
+
+	// Small models sometimes answer with the bare JSON object, without the tags.
+	if (toolCalls.length === 0) {
+		const toolCall = parseToolCall(text, toolNames);
+		if (toolCall) {
+			toolCalls.push(toolCall);
+			remainingText = "";
+		}
+	}
+
+	return { text: remainingText.trim(), toolCalls };
+}
+
+function parseToolCall(
+	text: string,
+	toolNames: string[],
+): LanguageModelV1FunctionToolCall | undefined {
+	const value = parseJsonWithRepair(text);
+
+	if (typeof value !== "object" || value === null) {
+		return undefined;
+	}
+
+	const { name, arguments: args, parameters } = value as Record<string, unknown>;
+
+	if (typeof name !== "string" || !toolNames.includes(name)) {
+		return undefined;
+	}
+
+	const toolArgs = args ?? parameters ?? {};
+
+	return {
+		toolCallType: "function",
+		toolCallId: generateId(),
+		toolName: name,
+		args: typeof toolArgs === "string" ? toolArgs : JSON.stringify(toolArgs),
+	};
+}
+
+function parseJsonWithRepair(text: string): unknown {
+	const json = text
+		.trim()
+		.replace(/^```(?:json)?\s*/i, "")
+		.replace(/\s*```$/, "");
+
+	if (!json.startsWith("{")) {
+		return undefined;
+	}
+
+	const parsed = safeParseJSON({ text: json });
+	if (parsed.success) {
+		return parsed.value;
+	}
+
+	const repaired = safeParseJSON({ text: repairJson(json) });
+	return repaired.success ? repaired.value : undefined;
+}
+
+/**
+ * Fixes the JSON mistakes that small models make most often: single quotes, unquoted keys,
+ * trailing commas, text after the object, and unclosed strings, objects and arrays.
+ */
+function repairJson(json: string): string {
+	let repaired = json;
+
+	if (!repaired.includes('"')) {
+		repaired = repaired.replace(/'/g, '"');
+	}
+
+	repaired = repaired
+		.replace(/([{,]\s*)([A-Za-z_]\w*)\s*:/g, '$1"$2":')
+		.replace(/,\s*([}\]])/g, "$1");
+
+	const closers: string[] = [];
+	let inString = false;
+
+	for (let i = 0; i < repaired.length; i++) {
+		const char = repaired[i];
+
+		if (inString) {
+			if (char === "\\") {
+				i++;
+			} else if (char === '"') {
+				inString = false;
+			}
+			continue;
+		}
+
+		if (char === '"') {
+			inString = true;
+		} else if (char === "{") {
+			closers.push("}");
+		} else if (char === "[") {
+			closers.push("]");
+		} else if (char === "}" || char === "]") {
+			closers.pop();
+			if (closers.length === 0) {
+				return repaired.slice(0, i + 1);
+			}
+		}
+	}
+
+	return `${repaired}${inString ? '"' : ""}${closers.reverse().join("")}`;
+}
@@ -1,19 +1,71 @@
 import { AutoRAGChatLanguageModel } from "./autorag-chat-language-model";
+import { AutoRAGChatLanguageModelV2 } from "./autorag-chat-language-model-v2";
 import type { AutoRAGChatSettings } from "./autorag-chat-settings";
+import {
+	createOpenAICompatibleRun,
+	createUnsupportedRun,
+	type OpenAICompatibleRunConfig,
+} from "./openai-compatible-run";
 import { createRun } from "./utils";
 import {
 	WorkersAIEmbeddingModel,
 	type WorkersAIEmbeddingSettings,
 } from "./workers-ai-embedding-model";
+import { WorkersAIEmbeddingModelV2 } from "./workers-ai-embedding-model-v2";
 import { WorkersAIChatLanguageModel } from "./workersai-chat-language-model";
+import { WorkersAIChatLanguageModelV2 } from "./workersai-chat-language-model-v2";
 import type { WorkersAIChatSettings } from "./workersai-chat-settings";
+import { WorkersAICompletionLanguageModel } from "./workersai-completion-language-model";
+import type { WorkersAICompletionSettings } from "./workersai-completion-settings";
 import { WorkersAIImageModel } from "./workersai-image-model";
+import { WorkersAIImageModelV2 } from "./workersai-image-model-v2";
 import type { WorkersAIImageSettings } from "./workersai-image-settings";
 import type {
 	EmbeddingModels,
 	ImageGenerationModels,
+	RerankerModels,
+	SpeechModels,
+	SummarizationModels,
 	TextGenerationModels,
+	TranscriptionModels,
+	TranslationModels,
 } from "./workersai-models";
+import { WorkersAIRerankerModel, type WorkersAIRerankerSettings } from "./workersai-reranker-model";
+import { WorkersAISpeechModel } from "./workersai-speech-model";
+import type { WorkersAISpeechSettings } from "./workersai-speech-settings";
+import {
+	WorkersAISummarizationModel,
+	type WorkersAISummarizationSettings,
+} from "./workersai-summarization-model";
+import { WorkersAITranscriptionModel } from "./workersai-transcription-model";
+import type { WorkersAITranscriptionSettings } from "./workersai-transcription-settings";
+import {
+	WorkersAITranslationModel,
+	type WorkersAITranslationSettings,
+} from "./workersai-translation-model";
+
+export type {
+	WorkersAICompletionMessage,
+	WorkersAICompletionTemplate,
+} from "./convert-to-workersai-completion-prompt";
+export {
+	WorkersAIBatch,
+	type WorkersAIBatchResult,
+	type WorkersAIBatchStatus,
+} from "./workersai-batch";
+export {
+	getWorkersAIImageModelCapabilities,
+	type WorkersAIImageModelCapabilities,
+} from "./workersai-image-model-capabilities";
+export type { WorkersAIImageProviderOptions } from "./workersai-image-settings";
+export {
+	getWorkersAIModelCapabilities,
+	type WorkersAIModelCapabilities,
+} from "./workersai-model-capabilities";
+export {
+	getWorkersAIResponseMetadata,
+	type WorkersAIResponseMetadata,
+} from "./workersai-response-metadata";
 
 export type WorkersAISettings = (
 	| {
@@ -27,6 +79,7 @@ export type WorkersAISettings = (
 			 */
 			accountId?: never;
 			apiKey?: never;
+			openAICompatible?: never;
 	  }
 	| {
 			/**
@@ -34,16 +87,54 @@ export type WorkersAISettings = (
 			 */
 			accountId: string;
 			apiKey: string;
+			/**
+			 * Optionally override the base URL of the run endpoint, e.g. to go through a proxy.
+			 * Defaults to `https://api.cloudflare.com/client/v4/accounts/{accountId}/ai/run`.
+			 */
+			baseURL?: string;
+			/**
+			 * Optionally add headers to every request.
+			 */
+			headers?: Record<string, string>;
+			/**
+			 * Optionally provide a custom fetch implementation, e.g. for proxies or test doubles.
+			 */
+			fetch?: typeof fetch;
 			/**
 			 * Both binding must be absent if credentials are used directly.
 			 */
 			binding?: never;
+			openAICompatible?: never;
+	  }
+	| {
+			/**
+			 * Point the provider at an OpenAI-compatible server instead of Cloudflare, e.g. a
+			 * local llama.cpp or Ollama server for offline development and CI. Chat, embedding and
+			 * image models call its `/chat/completions`, `/embeddings` and `/images/generations`
+			 * endpoints. Speech, translation and summarization models throw an
+			 * `UnsupportedFunctionalityError`.
+			 */
+			openAICompatible: OpenAICompatibleRunConfig;
+
+			/**
+			 * Binding and credentials must be absent when an OpenAI-compatible server is used.
+			 */
+			binding?: never;
+			accountId?: never;
+			apiKey?: never;
 	  }
 ) & {
 	/**
 	 * Optionally specify a gateway.
 	 */
 	gateway?: GatewayOptions;
+
+	/**
+	 * Optionally provide a fetch implementation for downloading the image URLs of prompts and
+	 * image inputs. Defaults to the global fetch in every mode, so image URLs are never sent
+	 * through the fetch of the REST API client.
+	 */
+	imageFetch?: typeof fetch;
 };
 
 export interface WorkersAI {
@@ -56,6 +147,14 @@ export interface WorkersAI {
 		settings?: WorkersAIChatSettings,
 	): WorkersAIChatLanguageModel;
 
+	/**
+	 * Creates a model for text completion from a plain prompt, without chat formatting.
+	 **/
+	completion(
+		modelId: TextGenerationModels,
+		settings?: WorkersAICompletionSettings,
+	): WorkersAICompletionLanguageModel;
+
 	embedding(
 		modelId: EmbeddingModels,
 		settings?: WorkersAIEmbeddingSettings,
@@ -71,38 +170,73 @@ export interface WorkersAI {
 		settings?: WorkersAIEmbeddingSettings,
 	): WorkersAIEmbeddingModel;
 
+	/**
+	 * Creates a model that ranks documents by their relevance to a query.
+	 **/
+	reranker(modelId: RerankerModels, settings?: WorkersAIRerankerSettings): WorkersAIRerankerModel;
+
+	/**
+	 * Creates a model that translates texts between languages.
+	 **/
+	translation(
+		modelId: TranslationModels,
+		settings?: WorkersAITranslationSettings,
+	): WorkersAITranslationModel;
+
+	/**
+	 * Creates a model that summarises texts.
+	 **/
+	summarization(
+		modelId: SummarizationModels,
+		settings?: WorkersAISummarizationSettings,
+	): WorkersAISummarizationModel;
+
 	/**
 	 * Creates a model for image generation.
 	 **/
 	image(modelId: ImageGenerationModels, settings?: WorkersAIImageSettings): WorkersAIImageModel;
+
+	/**
+	 * Creates a model for speech to text transcription.
+	 **/
+	transcription(
+		modelId: TranscriptionModels,
+		settings?: WorkersAITranscriptionSettings,
+	): WorkersAITranscriptionModel;
+
+	/**
+	 * Creates a model for text to speech.
+	 **/
+	speech(modelId: SpeechModels, settings?: WorkersAISpeechSettings): WorkersAISpeechModel;
 }
 
 /**
  * Create a Workers AI provider instance.
  */
 export function createWorkersAI(options: WorkersAISettings): WorkersAI {
-	// Use a binding if one is directly provided. Otherwise use credentials to create
-	// a `run` method that calls the Cloudflare REST API.
-	let binding: Ai | undefined;
+	const { binding, toolCallFormat } = getBinding(options);
 
-	if (options.binding) {
-		binding = options.binding;
-	} else {
-		const { accountId, apiKey } = options;
-		binding = {
-			run: createRun({ accountId, apiKey }),
-		} as Ai;
-	}
-
-	if (!binding) {
-		throw new Error("Either a binding or credentials must be provided.");
-	}
+	// OpenAI-compatible servers only have endpoints for chat, embedding and image models.
+	const getTaskBinding = (functionality: string) =>
+		options.openAICompatible ? ({ run: createUnsupportedRun(functionality) } as Ai) : binding;
 
 	const createChatModel = (modelId: TextGenerationModels, settings: WorkersAIChatSettings = {}) =>
 		new WorkersAIChatLanguageModel(modelId, settings, {
 			provider: "workersai.chat",
 			binding,
 			gateway: options.gateway,
+			toolCallFormat,
+			fetch: options.imageFetch,
+		});
+
+	const createCompletionModel = (
+		modelId: TextGenerationModels,
+		settings: WorkersAICompletionSettings = {},
+	) =>
+		new WorkersAICompletionLanguageModel(modelId, settings, {
+			provider: "workersai.completion",
+			binding,
+			gateway: options.gateway,
 		});
 
 	const createImageModel = (
@@ -113,6 +247,49 @@ export function createWorkersAI(options: WorkersAISettings): WorkersAI {
 			provider: "workersai.image",
 			binding,
 			gateway: options.gateway,
+			fetch: options.imageFetch,
+		});
+	const createRerankerModel = (
+		modelId: RerankerModels,
+		settings: WorkersAIRerankerSettings = {},
+	) =>
+		new WorkersAIRerankerModel(modelId, settings, {
+			provider: "workersai.reranker",
+			binding,
+			gateway: options.gateway,
+		});
+	const createTranslationModel = (
+		modelId: TranslationModels,
+		settings: WorkersAITranslationSettings = {},
+	) =>
+		new WorkersAITranslationModel(modelId, settings, {
+			provider: "workersai.translation",
+			binding: getTaskBinding("translation"),
+			gateway: options.gateway,
+		});
+	const createSummarizationModel = (
+		modelId: SummarizationModels,
+		settings: WorkersAISummarizationSettings = {},
+	) =>
+		new WorkersAISummarizationModel(modelId, settings, {
+			provider: "workersai.summarization",
+			binding: getTaskBinding("summarization"),
+			gateway: options.gateway,
+		});
+	const createTranscriptionModel = (
+		modelId: TranscriptionModels,
+		settings: WorkersAITranscriptionSettings = {},
+	) =>
+		new WorkersAITranscriptionModel(modelId, settings, {
+			provider: "workersai.transcription",
+			binding,
+			gateway: options.gateway,
+		});
+	const createSpeechModel = (modelId: SpeechModels, settings: WorkersAISpeechSettings = {}) =>
+		new WorkersAISpeechModel(modelId, settings, {
+			provider: "workersai.speech",
+			binding: getTaskBinding("text to speech"),
+			gateway: options.gateway,
 		});
 	const createEmbeddingModel = (
 		modelId: EmbeddingModels,
@@ -132,9 +309,132 @@ export function createWorkersAI(options: WorkersAISettings): WorkersAI {
 	};
 
 	provider.chat = createChatModel;
+	provider.completion = createCompletionModel;
 	provider.embedding = createEmbeddingModel;
 	provider.textEmbedding = createEmbeddingModel;
 	provider.textEmbeddingModel = createEmbeddingModel;
+	provider.reranker = createRerankerModel;
+	provider.translation = createTranslationModel;
+	provider.summarization = createSummarizationModel;
+	provider.image = createImageModel;
+	provider.imageModel = createImageModel;
+	provider.transcription = createTranscriptionModel;
+	provider.speech = createSpeechModel;
+
+	return provider;
+}
+
+/**
+ * Use a binding if one is directly provided. Otherwise create a `run` method that calls an
+ * OpenAI-compatible server, or the Cloudflare REST API with credentials.
+ */
+function getBinding(options: WorkersAISettings) {
+	let binding: Ai | undefined;
+	// OpenAI-compatible servers render tool calls with their own chat templates.
+	const toolCallFormat = options.openAICompatible ? ("openai" as const) : undefined;
+
+	if (options.binding) {
+		binding = options.binding;
+	} else if (options.openAICompatible) {
+		binding = {
+			run: createOpenAICompatibleRun(options.openAICompatible),
+		} as Ai;
+	} else {
+		const { accountId, apiKey, baseURL, headers, fetch } = options;
+		binding = {
+			run: createRun({ accountId, apiKey, baseURL, headers, fetch }),
+		} as Ai;
+	}
+
+	if (!binding) {
+		throw new Error("Either a binding or credentials must be provided.");
+	}
+
+	return { binding, toolCallFormat };
+}
+
+export interface WorkersAIV2 {
+	(modelId: TextGenerationModels, settings?: WorkersAIChatSettings): WorkersAIChatLanguageModelV2;
+	/**
+	 * Creates a model for text generation.
+	 **/
+	chat(
+		modelId: TextGenerationModels,
+		settings?: WorkersAIChatSettings,
+	): WorkersAIChatLanguageModelV2;
+
+	languageModel(
+		modelId: TextGenerationModels,
+		settings?: WorkersAIChatSettings,
+	): WorkersAIChatLanguageModelV2;
+
+	textEmbedding(
+		modelId: EmbeddingModels,
+		settings?: WorkersAIEmbeddingSettings,
+	): WorkersAIEmbeddingModelV2;
+
+	textEmbeddingModel(
+		modelId: EmbeddingModels,
+		settings?: WorkersAIEmbeddingSettings,
+	): WorkersAIEmbeddingModelV2;
+
+	/**
+	 * Creates a model for image generation.
+	 **/
+	image(modelId: ImageGenerationModels, settings?: WorkersAIImageSettings): WorkersAIImageModelV2;
+
+	imageModel(
+		modelId: ImageGenerationModels,
+		settings?: WorkersAIImageSettings,
+	): WorkersAIImageModelV2;
+}
+
+/**
+ * Create a Workers AI provider instance for AI SDK 5, with V2 chat, embedding and image
+ * models. It takes the same settings as {@link createWorkersAI}.
+ */
+export function createWorkersAIV2(options: WorkersAISettings): WorkersAIV2 {
+	const { binding, toolCallFormat } = getBinding(options);
+
+	const createChatModel = (modelId: TextGenerationModels, settings: WorkersAIChatSettings = {}) =>
+		new WorkersAIChatLanguageModelV2(modelId, settings, {
+			provider: "workersai.chat",
+			binding,
+			gateway: options.gateway,
+			toolCallFormat,
+			fetch: options.imageFetch,
+		});
+	const createEmbeddingModel = (
+		modelId: EmbeddingModels,
+		settings: WorkersAIEmbeddingSettings = {},
+	) =>
+		new WorkersAIEmbeddingModelV2(modelId, settings, {
+			provider: "workersai.embedding",
+			binding,
+			gateway: options.gateway,
+		});
+	const createImageModel = (
+		modelId: ImageGenerationModels,
+		settings: WorkersAIImageSettings = {},
+	) =>
+		new WorkersAIImageModelV2(modelId, settings, {
+			provider: "workersai.image",
+			binding,
+			gateway: options.gateway,
+			fetch: options.imageFetch,
+		});
+
+	const provider = (modelId: TextGenerationModels, settings?: WorkersAIChatSettings) => {
+		if (new.target) {
+			throw new Error("The WorkersAI model function cannot be called with the new keyword.");
+		}
+		return createChatModel(modelId, settings);
+	};
+
+	provider.chat = createChatModel;
+	provider.languageModel = createChatModel;
+	provider.textEmbedding = createEmbeddingModel;
+	provider.textEmbeddingModel = createEmbeddingModel;
 	provider.image = createImageModel;
 	provider.imageModel = createImageModel;
 
@@ -176,3 +476,35 @@ export function createAutoRAG(options: AutoRAGSettings): AutoRAGProvider {
 
 	return provider;
 }
+
+export interface AutoRAGProviderV2 {
+	(options?: AutoRAGChatSettings): AutoRAGChatLanguageModelV2;
+	/**
+	 * Creates a model for text generation.
+	 **/
+	chat(settings?: AutoRAGChatSettings): AutoRAGChatLanguageModelV2;
+}
+
+/**
+ * Create an AutoRAG provider instance for AI SDK 5.
+ */
+export function createAutoRAGV2(options: AutoRAGSettings): AutoRAGProviderV2 {
+	const binding = options.binding;
+
+	const createChatModel = (settings: AutoRAGChatSettings = {}) =>
+		new AutoRAGChatLanguageModelV2("@cf/meta/llama-3.3-70b-instruct-fp8-fast", settings, {
+			provider: "autorag.chat",
+			binding,
+		});
+
+	const provider = (settings?: AutoRAGChatSettings) => {
+		if (new.target) {
+			throw new Error("The WorkersAI model function cannot be called with the new keyword.");
+		}
+		return createChatModel(settings);
+	};
+
+	provider.chat = createChatModel;
+
+	return provider;
+}
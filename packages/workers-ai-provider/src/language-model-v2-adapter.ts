@@ -0,0 +1,452 @@
+import type {
+	LanguageModelV1,
+	LanguageModelV1CallOptions,
+	LanguageModelV1CallWarning,
+	LanguageModelV1Message,
+	LanguageModelV1Source,
+	LanguageModelV1StreamPart,
+} from "@ai-sdk/provider";
+import type {
+	LanguageModelV2,
+	LanguageModelV2CallOptions,
+	LanguageModelV2CallWarning,
+	LanguageModelV2Content,
+	LanguageModelV2Message,
+	LanguageModelV2Source,
+	LanguageModelV2StreamPart,
+	LanguageModelV2ToolResultOutput,
+	LanguageModelV2Usage,
+} from "@ai-sdk/provider-v2";
+import { convertUint8ArrayToBase64 } from "@ai-sdk/provider-utils";
+
+type V1AssistantContent = Extract<LanguageModelV1Message, { role: "assistant" }>["content"];
+
+/**
+ * Runs a V2 `doGenerate` call on a V1 model: the call options are converted to V1, and the
+ * result to V2 content parts.
+ */
+export async function doGenerateV2(
+	model: LanguageModelV1,
+	options: LanguageModelV2CallOptions,
+): Promise<Awaited<ReturnType<LanguageModelV2["doGenerate"]>>> {
+	const result = await model.doGenerate(convertToLanguageModelV1CallOptions(options));
+
+	const content: LanguageModelV2Content[] = [];
+
+	const reasoning =
+		typeof result.reasoning === "string"
+			? result.reasoning
+			: result.reasoning?.map((part) => (part.type === "text" ? part.text : "")).join("");
+	if (reasoning) {
+		content.push({ type: "reasoning", text: reasoning });
+	}
+	if (result.text) {
+		content.push({ type: "text", text: result.text });
+	}
+	for (const source of result.sources ?? []) {
+		content.push(mapSource(source));
+	}
+	for (const file of result.files ?? []) {
+		content.push({ type: "file", mediaType: file.mimeType, data: file.data });
+	}
+	for (const toolCall of result.toolCalls ?? []) {
+		content.push({
+			type: "tool-call",
+			toolCallId: toolCall.toolCallId,
+			toolName: toolCall.toolName,
+			input: toolCall.args,
+		});
+	}
+
+	return {
+		content,
+		finishReason: result.finishReason,
+		usage: mapUsage(result.usage),
+		providerMetadata: result.providerMetadata,
+		request: { body: { ...result.rawCall.rawSettings, messages: result.rawCall.rawPrompt } },
+		response: {
+			...result.response,
+			headers: result.rawResponse?.headers,
+			body: result.rawResponse?.body,
+		},
+		warnings: result.warnings?.map(mapWarning) ?? [],
+	};
+}
+
+/**
+ * Runs a V2 `doStream` call on a V1 model. Text, reasoning and tool inputs are streamed as
+ * start, delta and end parts, with an id per block.
+ */
+export async function doStreamV2(
+	model: LanguageModelV1,
+	options: LanguageModelV2CallOptions,
+): Promise<Awaited<ReturnType<LanguageModelV2["doStream"]>>> {
+	const result = await model.doStream(convertToLanguageModelV1CallOptions(options));
+	const warnings = result.warnings?.map(mapWarning) ?? [];
+
+	// The text or reasoning block that is being streamed, if any.
+	let openBlock: { type: "text" | "reasoning"; id: string } | undefined;
+	const openToolInputs = new Set<string>();
+	let nextId = 0;
+
+	const closeBlock = (
+		controller: TransformStreamDefaultController<LanguageModelV2StreamPart>,
+	) => {
+		if (openBlock) {
+			controller.enqueue({ type: `${openBlock.type}-end`, id: openBlock.id });
+			openBlock = undefined;
+		}
+	};
+
+	const enqueueDelta = (
+		controller: TransformStreamDefaultController<LanguageModelV2StreamPart>,
+		type: "text" | "reasoning",
+		delta: string,
+	) => {
+		if (openBlock?.type !== type) {
+			closeBlock(controller);
+			openBlock = { type, id: String(nextId++) };
+			controller.enqueue({ type: `${type}-start`, id: openBlock.id });
+		}
+		controller.enqueue({ type: `${type}-delta`, id: openBlock.id, delta });
+	};
+
+	return {
+		stream: result.stream.pipeThrough(
+			new TransformStream<LanguageModelV1StreamPart, LanguageModelV2StreamPart>({
+				start(controller) {
+					controller.enqueue({ type: "stream-start", warnings });
+				},
+
+				transform(part, controller) {
+					switch (part.type) {
+						case "text-delta": {
+							enqueueDelta(controller, "text", part.textDelta);
+							break;
+						}
+
+						case "reasoning": {
+							enqueueDelta(controller, "reasoning", part.textDelta);
+							break;
+						}
+
+						case "tool-call-delta": {
+							closeBlock(controller);
+							if (!openToolInputs.has(part.toolCallId)) {
+								openToolInputs.add(part.toolCallId);
+								controller.enqueue({
+									type: "tool-input-start",
+									id: part.toolCallId,
+									toolName: part.toolName,
+								});
+							}
+							controller.enqueue({
+								type: "tool-input-delta",
+								id: part.toolCallId,
+								delta: part.argsTextDelta,
+							});
+							break;
+						}
+
+						case "tool-call": {
+							closeBlock(controller);
+							if (openToolInputs.delete(part.toolCallId)) {
+								controller.enqueue({ type: "tool-input-end", id: part.toolCallId });
+							}
+							controller.enqueue({
+								type: "tool-call",
+								toolCallId: part.toolCallId,
+								toolName: part.toolName,
+								input: part.args,
+							});
+							break;
+						}
+
+						case "source": {
+							controller.enqueue(mapSource(part.source));
+							break;
+						}
+
+						case "file": {
+							controller.enqueue({
+								type: "file",
+								mediaType: part.mimeType,
+								data: part.data,
+							});
+							break;
+						}
+
+						case "response-metadata": {
+							controller.enqueue(part);
+							break;
+						}
+
+						case "finish": {
+							closeBlock(controller);
+							for (const id of openToolInputs) {
+								controller.enqueue({ type: "tool-input-end", id });
+							}
+							openToolInputs.clear();
+							controller.enqueue({
+								type: "finish",
+								finishReason: part.finishReason,
+								usage: mapUsage(part.usage),
+								providerMetadata: part.providerMetadata,
+							});
+							break;
+						}
+
+						case "error": {
+							controller.enqueue(part);
+							break;
+						}
+
+						// Signatures and redacted reasoning have no counterpart in the models.
+					}
+				},
+			}),
+		),
+		request: { body: { ...result.rawCall.rawSettings, messages: result.rawCall.rawPrompt } },
+		response: { headers: result.rawResponse?.headers },
+	};
+}
+
+/**
+ * Converts V2 call options to V1. A JSON response format becomes the `object-json` mode, and
+ * the tools and tool choice go into the `regular` mode.
+ */
+export function convertToLanguageModelV1CallOptions({
+	prompt,
+	maxOutputTokens,
+	responseFormat,
+	tools,
+	toolChoice,
+	providerOptions,
+	includeRawChunks,
+	...settings
+}: LanguageModelV2CallOptions): LanguageModelV1CallOptions {
+	return {
+		...settings,
+		inputFormat: "messages",
+		maxTokens: maxOutputTokens,
+		mode:
+			responseFormat?.type === "json"
+				? {
+						type: "object-json",
+						schema: responseFormat.schema,
+						name: responseFormat.name,
+						description: responseFormat.description,
+					}
+				: {
+						type: "regular",
+						tools: tools?.map((tool) =>
+							tool.type === "function"
+								? {
+										type: "function",
+										name: tool.name,
+										description: tool.description,
+										parameters: tool.inputSchema,
+									}
+								: tool,
+						),
+						toolChoice,
+					},
+		prompt: prompt.map(convertToLanguageModelV1Message),
+		providerMetadata: providerOptions,
+	};
+}
+
+function convertToLanguageModelV1Message(message: LanguageModelV2Message): LanguageModelV1Message {
+	const providerMetadata = message.providerOptions;
+
+	switch (message.role) {
+		case "system": {
+			return { role: "system", content: message.content, providerMetadata };
+		}
+
+		case "user": {
+			return {
+				role: "user",
+				content: message.content.map((part) => {
+					if (part.type === "text") {
+						return {
+							type: "text",
+							text: part.text,
+							providerMetadata: part.providerOptions,
+						};
+					}
+
+					// Images are files with an image media type in V2.
+					if (part.mediaType.startsWith("image/")) {
+						return {
+							type: "image",
+							image:
+								typeof part.data === "string" ? toURLOrBytes(part.data) : part.data,
+							mimeType: part.mediaType === "image/*" ? undefined : part.mediaType,
+							providerMetadata: part.providerOptions,
+						};
+					}
+
+					return {
+						type: "file",
+						filename: part.filename,
+						data:
+							part.data instanceof Uint8Array
+								? convertUint8ArrayToBase64(part.data)
+								: part.data,
+						mimeType: part.mediaType,
+						providerMetadata: part.providerOptions,
+					};
+				}),
+				providerMetadata,
+			};
+		}
+
+		case "assistant": {
+			return {
+				role: "assistant",
+				content: message.content.flatMap((part): V1AssistantContent => {
+					switch (part.type) {
+						case "text":
+						case "reasoning": {
+							return [
+								{
+									type: part.type,
+									text: part.text,
+									providerMetadata: part.providerOptions,
+								},
+							];
+						}
+
+						case "tool-call": {
+							return [
+								{
+									type: "tool-call",
+									toolCallId: part.toolCallId,
+									toolName: part.toolName,
+									args: part.input,
+									providerMetadata: part.providerOptions,
+								},
+							];
+						}
+
+						// Generated files and results of provider-executed tools are not sent back.
+						default: {
+							return [];
+						}
+					}
+				}),
+				providerMetadata,
+			};
+		}
+
+		case "tool": {
+			return {
+				role: "tool",
+				content: message.content.map((part) => ({
+					type: "tool-result",
+					toolCallId: part.toolCallId,
+					toolName: part.toolName,
+					...convertToolResultOutput(part.output),
+					providerMetadata: part.providerOptions,
+				})),
+				providerMetadata,
+			};
+		}
+	}
+}
+
+function convertToolResultOutput(output: LanguageModelV2ToolResultOutput) {
+	switch (output.type) {
+		case "text":
+		case "json": {
+			return { result: output.value };
+		}
+
+		case "error-text":
+		case "error-json": {
+			return { result: output.value, isError: true };
+		}
+
+		case "content": {
+			return {
+				result: output.value,
+				content: output.value.map((part) =>
+					part.type === "text"
+						? part
+						: { type: "image" as const, data: part.data, mimeType: part.mediaType },
+				),
+			};
+		}
+	}
+}
+
+/**
+ * V2 file data is a URL, or base64 data as a string. V1 images are URLs or bytes.
+ */
+function toURLOrBytes(data: string): URL | Uint8Array {
+	try {
+		return new URL(data);
+	} catch {
+		return Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+	}
+}
+
+function mapSource(source: LanguageModelV1Source): LanguageModelV2Source {
+	return {
+		type: "source",
+		sourceType: "url",
+		id: source.id,
+		url: source.url,
+		title: source.title,
+		providerMetadata: source.providerMetadata,
+	};
+}
+
+/**
+ * Maps V1 usage, where unknown counts are `NaN`, to V2 usage, where they are `undefined`.
+ */
+function mapUsage(usage: { promptTokens: number; completionTokens: number }): LanguageModelV2Usage {
+	const inputTokens = Number.isNaN(usage.promptTokens) ? undefined : usage.promptTokens;
+	const outputTokens = Number.isNaN(usage.completionTokens) ? undefined : usage.completionTokens;
+
+	return {
+		inputTokens,
+		outputTokens,
+		totalTokens:
+			inputTokens !== undefined && outputTokens !== undefined
+				? inputTokens + outputTokens
+				: undefined,
+	};
+}
+
+function mapWarning(warning: LanguageModelV1CallWarning): LanguageModelV2CallWarning {
+	switch (warning.type) {
+		case "unsupported-setting": {
+			return {
+				...warning,
+				setting: warning.setting === "maxTokens" ? "maxOutputTokens" : warning.setting,
+			};
+		}
+
+		case "unsupported-tool": {
+			const { tool } = warning;
+			return {
+				...warning,
+				tool:
+					tool.type === "function"
+						? {
+								type: "function",
+								name: tool.name,
+								description: tool.description,
+								inputSchema: tool.parameters,
+							}
+						: tool,
+			};
+		}
+
+		default: {
+			return warning;
+		}
+	}
+}
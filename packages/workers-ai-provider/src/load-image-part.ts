@@ -0,0 +1,226 @@
+import {
+	APICallError,
+	InvalidArgumentError,
+	UnsupportedFunctionalityError,
+} from "@ai-sdk/provider";
+import { convertBase64ToUint8Array } from "@ai-sdk/provider-utils";
+
+export type LoadImageOptions = {
+	/**
+	 * Maximum size of an image in bytes. Defaults to 10 MB.
+	 */
+	maxImageSizeInBytes?: number;
+
+	/**
+	 * Custom fetch implementation used to download image URLs.
+	 */
+	fetch?: typeof fetch;
+};
+
+export const DEFAULT_MAX_IMAGE_SIZE_IN_BYTES = 10 * 1024 * 1024;
+
+const supportedImageMimeTypes = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+/**
+ * Loads the data of an image prompt part into bytes.
+ *
+ * Accepts raw bytes, `http(s):` and `data:` URLs, data URL strings and base64 strings.
+ * URLs are downloaded with a size limit and must be served with an image content type.
+ * The mime type is taken from the part, the data URL, the response or the image bytes,
+ * in that order, and must be one of the formats Workers AI vision models accept.
+ */
+export async function loadImagePart(
+	image: Uint8Array | URL | string,
+	mimeType: string | undefined,
+	options: LoadImageOptions = {},
+): Promise<{ image: Uint8Array; mimeType: string }> {
+	const maxSize = options.maxImageSizeInBytes ?? DEFAULT_MAX_IMAGE_SIZE_IN_BYTES;
+
+	let data: Uint8Array;
+	let detectedMimeType: string | undefined;
+
+	if (image instanceof Uint8Array) {
+		data = image;
+	} else if (image instanceof URL || /^(https?|data):/i.test(image)) {
+		const url = image instanceof URL ? image : new URL(image);
+
+		if (url.protocol === "data:") {
+			({ data, mimeType: detectedMimeType } = parseDataUrl(url.href));
+		} else if (url.protocol === "http:" || url.protocol === "https:") {
+			({ data, mimeType: detectedMimeType } = await downloadImage(
+				url,
+				maxSize,
+				options.fetch,
+			));
+		} else {
+			throw new UnsupportedFunctionalityError({
+				functionality: `image URLs with the ${url.protocol} protocol`,
+			});
+		}
+	} else {
+		data = decodeBase64(image);
+	}
+
+	if (data.length > maxSize) {
+		throw new InvalidArgumentError({
+			argument: "image",
+			message: `Image is ${data.length} bytes, which exceeds the limit of ${maxSize} bytes.`,
+		});
+	}
+
+	const resolvedMimeType = normalizeMimeType(
+		mimeType ?? detectedMimeType ?? detectImageMimeType(data) ?? "image/png",
+	);
+
+	if (!supportedImageMimeTypes.includes(resolvedMimeType)) {
+		throw new UnsupportedFunctionalityError({
+			functionality: `images of type ${resolvedMimeType}`,
+			message: `Unsupported image type '${resolvedMimeType}'. Supported types are ${supportedImageMimeTypes.join(", ")}.`,
+		});
+	}
+
+	return { image: data, mimeType: resolvedMimeType };
+}
+
+function parseDataUrl(dataUrl: string): { data: Uint8Array; mimeType: string | undefined } {
+	const match = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s.exec(dataUrl);
+
+	if (!match) {
+		throw new InvalidArgumentError({
+			argument: "image",
+			message: "Image data URL is malformed.",
+		});
+	}
+
+	const [, mimeType, parameters, payload] = match;
+
+	if (!parameters!.split(";").includes("base64")) {
+		throw new InvalidArgumentError({
+			argument: "image",
+			message: "Image data URLs must be base64 encoded.",
+		});
+	}
+
+	return { data: decodeBase64(decodeURIComponent(payload!)), mimeType: mimeType || undefined };
+}
+
+async function downloadImage(
+	url: URL,
+	maxSize: number,
+	fetchImpl: typeof fetch = fetch,
+): Promise<{ data: Uint8Array; mimeType: string }> {
+	const response = await fetchImpl(url);
+
+	if (!response.ok) {
+		throw new APICallError({
+			message: `Failed to download image from ${url.href}: ${response.status} ${response.statusText}`,
+			url: url.href,
+			requestBodyValues: {},
+			statusCode: response.status,
+		});
+	}
+
+	const contentType = response.headers.get("content-type")?.split(";")[0]?.trim();
+
+	if (!contentType?.startsWith("image/")) {
+		throw new InvalidArgumentError({
+			argument: "image",
+			message: `Expected an image from ${url.href}, but got content type '${contentType ?? "none"}'.`,
+		});
+	}
+
+	const contentLength = Number(response.headers.get("content-length"));
+
+	if (contentLength > maxSize) {
+		await response.body?.cancel();
+		throw new InvalidArgumentError({
+			argument: "image",
+			message: `Image at ${url.href} is ${contentLength} bytes, which exceeds the limit of ${maxSize} bytes.`,
+		});
+	}
+
+	return {
+		data: await readBody(response, url, maxSize),
+		mimeType: contentType,
+	};
+}
+
+/**
+ * Reads a response body of at most `maxSize` bytes. The content length may be missing or
+ * wrong, so the bytes are counted as they arrive, and the download is cancelled once they
+ * exceed the limit.
+ */
+async function readBody(response: Response, url: URL, maxSize: number): Promise<Uint8Array> {
+	if (!response.body) {
+		return new Uint8Array(0);
+	}
+
+	const reader = response.body.getReader();
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) break;
+
+		size += value.length;
+		if (size > maxSize) {
+			await reader.cancel();
+			throw new InvalidArgumentError({
+				argument: "image",
+				message: `Image at ${url.href} exceeds the limit of ${maxSize} bytes.`,
+			});
+		}
+		chunks.push(value);
+	}
+
+	const data = new Uint8Array(size);
+	let offset = 0;
+	for (const chunk of chunks) {
+		data.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return data;
+}
+
+function decodeBase64(base64: string): Uint8Array {
+	try {
+		return convertBase64ToUint8Array(base64.trim());
+	} catch (error) {
+		throw new InvalidArgumentError({
+			argument: "image",
+			message: "Image string is neither a URL nor valid base64 data.",
+			cause: error,
+		});
+	}
+}
+
+function normalizeMimeType(mimeType: string) {
+	const normalized = mimeType.toLowerCase();
+	return normalized === "image/jpg" ? "image/jpeg" : normalized;
+}
+
+function detectImageMimeType(data: Uint8Array): string | undefined {
+	if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) {
+		return "image/png";
+	}
+	if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+		return "image/jpeg";
+	}
+	if (data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46) {
+		return "image/gif";
+	}
+	if (
+		data[0] === 0x52 &&
+		data[1] === 0x49 &&
+		data[2] === 0x46 &&
+		data[3] === 0x46 &&
+		data[8] === 0x57 &&
+		data[9] === 0x45 &&
+		data[10] === 0x42 &&
+		data[11] === 0x50
+	) {
+		return "image/webp";
+	}
+	return undefined;
+}
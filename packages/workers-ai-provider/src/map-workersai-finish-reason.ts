@@ -4,6 +4,9 @@ export function mapWorkersAIFinishReason(
 	finishReason: string | null | undefined,
 ): LanguageModelV1FinishReason {
 	switch (finishReason) {
+		// Most Workers AI models only report a finish reason when it is not a regular stop.
+		case null:
+		case undefined:
 		case "stop":
 			return "stop";
 		case "length":
@@ -11,7 +14,19 @@ export function mapWorkersAIFinishReason(
 			return "length";
 		case "tool_calls":
 			return "tool-calls";
+		case "content_filter":
+			return "content-filter";
+		case "error":
+			return "error";
 		default:
 			return "other";
 	}
 }
+
+/**
+ * Reads the upstream finish reason from a response or stream chunk. It is top-level in the
+ * native Workers AI format and on the first choice in the OpenAI-compatible format.
+ */
+export function getWorkersAIFinishReason(output: any): string | null | undefined {
+	return output?.finish_reason ?? output?.choices?.[0]?.finish_reason;
+}
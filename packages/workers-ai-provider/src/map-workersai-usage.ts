@@ -1,15 +1,17 @@
+/**
+ * Maps the token usage of an output. Usage that the model does not report is unknown, which
+ * the AI SDK represents as `NaN`.
+ */
 export function mapWorkersAIUsage(output: AiTextGenerationOutput | AiTextToImageOutput) {
-	const usage = (
-		output as {
-			usage: { prompt_tokens: number; completion_tokens: number };
-		}
-	).usage ?? {
-		prompt_tokens: 0,
-		completion_tokens: 0,
-	};
+	const usage =
+		(
+			output as {
+				usage?: { prompt_tokens?: number; completion_tokens?: number };
+			}
+		).usage ?? {};
 
 	return {
-		promptTokens: usage.prompt_tokens,
-		completionTokens: usage.completion_tokens,
+		promptTokens: usage.prompt_tokens ?? Number.NaN,
+		completionTokens: usage.completion_tokens ?? Number.NaN,
 	};
 }
@@ -0,0 +1,236 @@
+import { APICallError, UnsupportedFunctionalityError } from "@ai-sdk/provider";
+import {
+	convertBase64ToUint8Array,
+	isAbortError,
+	withoutTrailingSlash,
+} from "@ai-sdk/provider-utils";
+import type { AiRun, RunOptions } from "./utils";
+import { workersAIFailedResponseHandler } from "./workersai-error";
+import { withResponseHeaders } from "./workersai-response-metadata";
+
+/**
+ * Parameters for configuring a runner backed by an OpenAI-compatible server.
+ */
+export interface OpenAICompatibleRunConfig {
+	/** Base URL of the OpenAI-compatible API, e.g. `http://localhost:11434/v1`. */
+	baseURL: string;
+
+	/** Optional API key, sent as a bearer token. */
+	apiKey?: string;
+
+	/** Custom headers sent with every request. */
+	headers?: Record<string, string>;
+
+	/** Custom fetch implementation, e.g. for proxies or test doubles. */
+	fetch?: typeof fetch;
+
+	/**
+	 * Maps Workers AI model ids to the model names of the server. Ids without an entry
+	 * are sent unchanged.
+	 */
+	models?: Record<string, string>;
+}
+
+/**
+ * Creates a run method that emulates the Cloudflare Workers AI binding on top of an
+ * OpenAI-compatible server, such as llama.cpp or Ollama.
+ *
+ * The endpoint is chosen from the inputs: `messages` go to `/chat/completions`, `text` to
+ * `/embeddings`, text prompts with a `raw` flag to `/completions` and other `prompt`s to
+ * `/images/generations`. Requests and responses are translated
+ * to and from the shapes that Workers AI uses, so the models of this provider work unchanged.
+ */
+export function createOpenAICompatibleRun(config: OpenAICompatibleRunConfig): AiRun {
+	const { apiKey, models = {}, fetch = globalThis.fetch } = config;
+	const baseURL = withoutTrailingSlash(config.baseURL);
+
+	return async function run(model: string, inputs: any, options?: RunOptions) {
+		const { extraHeaders, returnRawResponse, signal } = options || {};
+
+		const modelId = models[model] ?? model;
+		const { path, body } = getRequest(modelId, inputs);
+		const url = `${baseURL}${path}`;
+
+		let response: Response;
+		try {
+			response = await fetch(url, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+					...config.headers,
+					...(extraHeaders as Record<string, string> | undefined),
+				},
+				body: JSON.stringify(body),
+				signal,
+			});
+		} catch (error) {
+			if (isAbortError(error)) {
+				throw error;
+			}
+			throw new APICallError({
+				message: `Cannot connect to API: ${error instanceof Error ? error.message : error}`,
+				cause: error,
+				url,
+				requestBodyValues: body,
+				isRetryable: true,
+			});
+		}
+
+		if (returnRawResponse) {
+			return response;
+		}
+
+		if (!response.ok) {
+			const { value: error } = await workersAIFailedResponseHandler({
+				url,
+				requestBodyValues: body,
+				response,
+			});
+			throw error;
+		}
+
+		// Stream chunks keep the OpenAI format, which the stream mapping reads directly.
+		if (body.stream === true) {
+			if (response.body) {
+				return withResponseHeaders(response.body, response);
+			}
+			throw new Error("No readable body available for streaming.");
+		}
+
+		return withResponseHeaders(getOutput(path, await response.json()), response);
+	} as AiRun;
+}
+
+/**
+ * Creates a run method for tasks that OpenAI-compatible servers have no endpoint for. Their
+ * calls fail, instead of being sent to the endpoint of another model type.
+ */
+export function createUnsupportedRun(functionality: string): AiRun {
+	return async function run() {
+		throw new UnsupportedFunctionalityError({
+			functionality: `${functionality} with an OpenAI-compatible backend`,
+		});
+	} as AiRun;
+}
+
+function getRequest(model: string, inputs: any): { path: string; body: any } {
+	if (inputs.messages) {
+		// LoRA adapters are loaded by the server itself.
+		const { response_format, stream, lora, ...chatInputs } = inputs;
+
+		return {
+			path: "/chat/completions",
+			body: {
+				...chatInputs,
+				model,
+				response_format: getResponseFormat(response_format),
+				stream,
+				stream_options: stream ? { include_usage: true } : undefined,
+			},
+		};
+	}
+
+	// Completion models send raw prompts, image models never do.
+	if (inputs.raw === true) {
+		const { raw, prompt, lora, repetition_penalty, ...completionInputs } = inputs;
+
+		return {
+			path: "/completions",
+			body: {
+				...completionInputs,
+				model,
+				prompt,
+				stream_options: completionInputs.stream ? { include_usage: true } : undefined,
+			},
+		};
+	}
+
+	if (inputs.text) {
+		return {
+			path: "/embeddings",
+			body: { model, input: inputs.text },
+		};
+	}
+
+	if (inputs.prompt) {
+		const { prompt, width, height } = inputs;
+
+		return {
+			path: "/images/generations",
+			body: {
+				model,
+				prompt,
+				n: 1,
+				size: width && height ? `${width}x${height}` : undefined,
+				response_format: "b64_json",
+			},
+		};
+	}
+
+	throw new Error("Unsupported inputs for an OpenAI-compatible backend.");
+}
+
+/**
+ * Workers AI takes the JSON schema directly, while OpenAI expects it wrapped and named.
+ */
+function getResponseFormat(responseFormat: any) {
+	if (responseFormat?.type !== "json_schema") {
+		return responseFormat;
+	}
+
+	return responseFormat.json_schema
+		? {
+				type: "json_schema",
+				json_schema: { name: "response", schema: responseFormat.json_schema },
+			}
+		: { type: "json_object" };
+}
+
+function getOutput(path: string, data: any) {
+	switch (path) {
+		case "/chat/completions": {
+			const choice = data.choices?.[0];
+
+			return {
+				response: choice?.message?.content ?? "",
+				tool_calls: choice?.message?.tool_calls ?? undefined,
+				finish_reason: choice?.finish_reason,
+				usage: data.usage,
+			};
+		}
+
+		case "/completions": {
+			const choice = data.choices?.[0];
+
+			return {
+				response: choice?.text ?? "",
+				finish_reason: choice?.finish_reason,
+				usage: data.usage,
+			};
+		}
+
+		case "/embeddings": {
+			const embeddings: number[][] = data.data.map(
+				(item: { embedding: number[] }) => item.embedding,
+			);
+
+			return {
+				shape: [embeddings.length, embeddings[0]?.length ?? 0],
+				data: embeddings,
+			};
+		}
+
+		default: {
+			// Text-to-image models of the binding return the image as a byte stream.
+			const image = convertBase64ToUint8Array(data.data[0].b64_json);
+
+			return new ReadableStream<Uint8Array>({
+				start(controller) {
+					controller.enqueue(image);
+					controller.close();
+				},
+			});
+		}
+	}
+}
@@ -0,0 +1,129 @@
+const openingTag = "<think>";
+const closingTag = "</think>";
+
+export type ReasoningTextPart = {
+	type: "reasoning" | "text";
+	text: string;
+};
+
+/**
+ * Creates a parser that splits `<think>...</think>` reasoning from the answer of a response
+ * that arrives in pieces. Tags may be split across pieces, so text that could be the start of
+ * a tag is held back until the next piece arrives.
+ *
+ * @param startsInReasoning Whether the response may start inside a reasoning block. Reasoning
+ * models often omit the opening tag, because their chat template already contains it, but
+ * they may also write it. The response is treated as reasoning from its start, so that the
+ * reasoning streams as it arrives, and an opening tag that the model wrote itself is dropped.
+ */
+export function createReasoningParser(startsInReasoning = false) {
+	let undecided = startsInReasoning;
+	let inReasoning = false;
+	let buffer = "";
+	// Whitespace after a tag is formatting, not content.
+	let trimNext = false;
+
+	const emit = (parts: ReasoningTextPart[], text: string) => {
+		const content = trimNext ? text.trimStart() : text;
+
+		if (!content) {
+			return;
+		}
+
+		trimNext = false;
+		parts.push({ type: inReasoning ? "reasoning" : "text", text: content });
+	};
+
+	const parse = (parts: ReasoningTextPart[]) => {
+		while (true) {
+			const tag = inReasoning ? closingTag : openingTag;
+			const index = buffer.indexOf(tag);
+
+			if (index === -1) {
+				const heldBack = getPartialTagLength(buffer, tag);
+				emit(parts, buffer.slice(0, buffer.length - heldBack));
+				buffer = buffer.slice(buffer.length - heldBack);
+				return parts;
+			}
+
+			emit(parts, buffer.slice(0, index));
+			buffer = buffer.slice(index + tag.length);
+			inReasoning = !inReasoning;
+			trimNext = true;
+		}
+	};
+
+	return {
+		/**
+		 * Adds the next piece of the response and returns the parts that are complete.
+		 */
+		push(delta: string): ReasoningTextPart[] {
+			const parts: ReasoningTextPart[] = [];
+			buffer += delta;
+
+			if (undecided) {
+				const start = buffer.trimStart();
+
+				// Wait until it is clear whether the response starts with an opening tag.
+				if (openingTag.startsWith(start)) {
+					return parts;
+				}
+
+				undecided = false;
+				inReasoning = true;
+				trimNext = true;
+				buffer = start.startsWith(openingTag) ? start.slice(openingTag.length) : start;
+			}
+
+			return parse(parts);
+		},
+
+		/**
+		 * Returns the text that was held back, once the response is complete.
+		 */
+		flush(): ReasoningTextPart[] {
+			// A response that ends before it is clear whether it starts with an opening tag is
+			// parsed as text.
+			undecided = false;
+			const parts = parse([]);
+			emit(parts, buffer);
+			buffer = "";
+			return parts;
+		},
+	};
+}
+
+/**
+ * Splits `<think>...</think>` reasoning from the answer of a complete response. Unlike a
+ * stream, a complete response that may start in reasoning but has no closing tag is known
+ * to be an answer, and is all text.
+ */
+export function splitReasoning(
+	response: string,
+	startsInReasoning = false,
+): { reasoning: string | undefined; text: string } {
+	const parser = createReasoningParser(startsInReasoning && response.includes(closingTag));
+	const parts = [...parser.push(response), ...parser.flush()];
+
+	const join = (type: ReasoningTextPart["type"]) =>
+		parts
+			.filter((part) => part.type === type)
+			.map((part) => part.text)
+			.join("");
+
+	const reasoning = join("reasoning").trimEnd();
+
+	return { reasoning: reasoning || undefined, text: join("text") };
+}
+
+/**
+ * Returns the length of the longest end of `text` that is the start of `tag`.
+ */
+function getPartialTagLength(text: string, tag: string) {
+	for (let length = Math.min(text.length, tag.length - 1); length > 0; length--) {
+		if (text.endsWith(tag.slice(0, length))) {
+			return length;
+		}
+	}
+	return 0;
+}
@@ -0,0 +1,63 @@
+/**
+ * Splits a text into chunks of at most `maxLength` characters, for models with a short input
+ * limit. Chunks end at sentence or line breaks where possible, otherwise between words.
+ * Joining the chunks gives back the text.
+ */
+export function splitText(text: string, maxLength: number): string[] {
+	const chunks: string[] = [];
+	let chunk = "";
+
+	for (const piece of splitPieces(text, maxLength)) {
+		if (chunk && chunk.length + piece.length > maxLength) {
+			chunks.push(chunk);
+			chunk = "";
+		}
+		chunk += piece;
+	}
+
+	if (chunk) {
+		chunks.push(chunk);
+	}
+
+	return chunks;
+}
+
+/**
+ * Splits a text into sentences and lines, with their trailing whitespace. Pieces that are
+ * too long are split into words, and words that are too long are cut.
+ */
+function splitPieces(text: string, maxLength: number): string[] {
+	const sentences = text.match(/[^.!?\n]*[.!?\n]*\s*/g) ?? [];
+
+	return sentences.flatMap((sentence) => {
+		if (sentence.length <= maxLength) {
+			return sentence ? [sentence] : [];
+		}
+
+		return (sentence.match(/\S*\s*/g) ?? []).flatMap((word) => {
+			const parts: string[] = [];
+			for (let start = 0; start < word.length; start += maxLength) {
+				parts.push(word.slice(start, start + maxLength));
+			}
+			return parts;
+		});
+	});
+}
+
+/**
+ * Runs a text transformation on the trimmed content of a chunk, keeping the whitespace
+ * around it, so that the transformed chunks can be joined like the original ones.
+ */
+export async function transformChunk(
+	chunk: string,
+	transform: (text: string) => Promise<string>,
+): Promise<string> {
+	const content = chunk.trim();
+
+	if (!content) {
+		return chunk;
+	}
+
+	const start = chunk.indexOf(content);
+	return `${chunk.slice(0, start)}${await transform(content)}${chunk.slice(start + content.length)}`;
+}
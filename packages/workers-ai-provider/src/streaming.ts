@@ -1,16 +1,63 @@
 import { events } from "fetch-event-stream";
 
 import type { LanguageModelV1StreamPart } from "@ai-sdk/provider";
+import { createReasoningParser, type ReasoningTextPart } from "./split-reasoning";
+import { getWorkersAIFinishReason, mapWorkersAIFinishReason } from "./map-workersai-finish-reason";
 import { mapWorkersAIUsage } from "./map-workersai-usage";
-import { processPartialToolCalls } from "./utils";
+import type { WorkersAIResponseMetadata } from "./workersai-response-metadata";
+import { mergePartialToolCall, normalizePartialToolCall, processToolCalls } from "./utils";
 
-export function getMappedStream(response: Response) {
+export type MappedStreamOptions = {
+	/**
+	 * Whether to split `<think>` reasoning from the answer into reasoning parts.
+	 */
+	extractReasoning?: boolean;
+
+	/**
+	 * Whether the response starts inside a reasoning block, without an opening tag.
+	 */
+	startsInReasoning?: boolean;
+
+	/**
+	 * Model and ids of the response, sent as a `response-metadata` part and as provider
+	 * metadata of the finish part.
+	 */
+	response?: { modelId: string; metadata: WorkersAIResponseMetadata };
+};
+
+export function getMappedStream(response: Response, options: MappedStreamOptions = {}) {
 	const chunkEvent = events(response);
-	let usage = { promptTokens: 0, completionTokens: 0 };
-	const partialToolCalls: any[] = [];
+	// Usage is unknown until a chunk reports it.
+	let usage = { promptTokens: Number.NaN, completionTokens: Number.NaN };
+	const toolCallsByIndex: Record<number, any> = {};
+	let finishReason: string | null | undefined;
+	const reasoningParser = options.extractReasoning
+		? createReasoningParser(options.startsInReasoning)
+		: undefined;
+
+	const enqueueText = (
+		controller: ReadableStreamDefaultController<LanguageModelV1StreamPart>,
+		parts: ReasoningTextPart[],
+	) => {
+		for (const part of parts) {
+			controller.enqueue({
+				type: part.type === "reasoning" ? "reasoning" : "text-delta",
+				textDelta: part.text,
+			});
+		}
+	};
 
 	return new ReadableStream<LanguageModelV1StreamPart>({
 		async start(controller) {
+			if (options.response) {
+				controller.enqueue({
+					type: "response-metadata",
+					id: options.response.metadata.requestId,
+					timestamp: new Date(),
+					modelId: options.response.modelId,
+				});
+			}
+
 			for await (const event of chunkEvent) {
 				if (!event.data) {
 					continue;
@@ -19,33 +66,66 @@ export function getMappedStream(response: Response) {
 					break;
 				}
 				const chunk = JSON.parse(event.data);
+				finishReason = getWorkersAIFinishReason(chunk) ?? finishReason;
 				if (chunk.usage) {
 					usage = mapWorkersAIUsage(chunk);
 				}
-				if (chunk.tool_calls) {
-					partialToolCalls.push(...chunk.tool_calls);
+				for (const partialToolCall of chunk.tool_calls ??
+					chunk.choices?.[0]?.delta?.tool_calls ??
+					[]) {
+					const fragment = normalizePartialToolCall(
+						partialToolCall,
+						Object.keys(toolCallsByIndex).length,
+					);
+					const toolCall = mergePartialToolCall(toolCallsByIndex, fragment);
+
+					// Stream each argument fragment as it arrives, so that UIs can render it live.
+					if (fragment.function?.arguments) {
+						controller.enqueue({
+							type: "tool-call-delta",
+							toolCallType: "function",
+							toolCallId: toolCall.id,
+							toolName: toolCall.function.name,
+							argsTextDelta: fragment.function.arguments,
+						});
+					}
+				}
+				// OpenAI-compatible chunks carry the text in the delta, or in the text of completions.
+				const textDelta =
+					chunk.response ??
+					chunk.choices?.[0]?.delta?.content ??
+					chunk.choices?.[0]?.text;
+				if (textDelta?.length) {
+					enqueueText(
+						controller,
+						reasoningParser
+							? reasoningParser.push(textDelta)
+							: [{ type: "text", text: textDelta }],
+					);
 				}
-				chunk.response?.length &&
-					controller.enqueue({
-						type: "text-delta",
-						textDelta: chunk.response,
-					});
 			}
 
-			if (partialToolCalls.length > 0) {
-				const toolCalls = processPartialToolCalls(partialToolCalls);
-				toolCalls.map((toolCall) => {
-					controller.enqueue({
-						type: "tool-call",
-						...toolCall,
-					});
+			if (reasoningParser) {
+				enqueueText(controller, reasoningParser.flush());
+			}
+
+			// The arguments of every call are complete once the stream ends.
+			const toolCalls = processToolCalls({ tool_calls: Object.values(toolCallsByIndex) });
+			for (const toolCall of toolCalls) {
+				controller.enqueue({
+					type: "tool-call",
+					...toolCall,
 				});
 			}
 
 			controller.enqueue({
 				type: "finish",
-				finishReason: "stop",
+				finishReason:
+					toolCalls.length > 0 ? "tool-calls" : mapWorkersAIFinishReason(finishReason),
 				usage: usage,
+				...(options.response
+					? { providerMetadata: { workersai: { ...options.response.metadata } } }
+					: {}),
 			});
 			controller.close();
 		},
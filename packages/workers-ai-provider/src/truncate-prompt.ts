@@ -0,0 +1,237 @@
+import type { LanguageModelV1CallWarning, LanguageModelV1Prompt } from "@ai-sdk/provider";
+
+export type WorkersAIPromptTruncationSettings = {
+	/**
+	 * How to make room once oversized tool results are trimmed: `drop-oldest` removes the
+	 * oldest turns, `summarize` replaces them with a summary written by the model.
+	 * Defaults to `drop-oldest`.
+	 */
+	strategy?: "drop-oldest" | "summarize";
+
+	/**
+	 * Context window in tokens. Defaults to the context window of the model.
+	 */
+	contextWindow?: number;
+
+	/**
+	 * Maximum size of a single tool result in tokens. Defaults to a quarter of the tokens
+	 * that are available for the prompt.
+	 */
+	maxToolResultTokens?: number;
+};
+
+type PromptMessage = LanguageModelV1Prompt[number];
+
+type PromptPart = Exclude<PromptMessage, { role: "system" }>["content"][number];
+
+// Rough estimates, since the tokenizers of the models are not available in a Worker.
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_TOKENS = 4;
+const IMAGE_TOKENS = 1024;
+const MAX_SUMMARY_TOKENS = 512;
+
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimatePromptTokens(prompt: LanguageModelV1Prompt): number {
+	return prompt.reduce((tokens, message) => tokens + estimateMessageTokens(message), 0);
+}
+
+function estimateMessageTokens(message: PromptMessage): number {
+	if (message.role === "system") {
+		return MESSAGE_TOKENS + estimateTokens(message.content);
+	}
+
+	return (message.content as PromptPart[]).reduce(
+		(tokens, part) => tokens + estimatePartTokens(part),
+		MESSAGE_TOKENS,
+	);
+}
+
+function estimatePartTokens(part: PromptPart): number {
+	switch (part.type) {
+		case "text":
+		case "reasoning": {
+			return estimateTokens(part.text);
+		}
+		case "redacted-reasoning": {
+			return 0;
+		}
+		case "image":
+		case "file": {
+			return IMAGE_TOKENS;
+		}
+		case "tool-call": {
+			return estimateTokens(part.toolName + JSON.stringify(part.args ?? {}));
+		}
+		case "tool-result": {
+			return estimateTokens(JSON.stringify(part.result) ?? "");
+		}
+		default: {
+			const exhaustiveCheck = part satisfies never;
+			throw new Error(`Unsupported part: ${exhaustiveCheck}`);
+		}
+	}
+}
+
+/**
+ * Fits a prompt into a context window, leaving room for the reserved tokens of the completion
+ * and the tool definitions. Oversized tool results are trimmed first. Then the oldest turns
+ * are dropped, or summarised, until the prompt fits. System messages and the latest turn are
+ * always kept. Returns the prompt unchanged if it already fits, and a warning for every cut.
+ */
+export async function truncatePromptToFit({
+	prompt,
+	contextWindow,
+	reservedTokens,
+	strategy = "drop-oldest",
+	maxToolResultTokens,
+	summarize,
+}: {
+	prompt: LanguageModelV1Prompt;
+	contextWindow: number;
+	reservedTokens: number;
+	strategy?: WorkersAIPromptTruncationSettings["strategy"];
+	maxToolResultTokens?: number;
+	summarize: (transcript: string, maxTokens: number) => Promise<string>;
+}): Promise<{ prompt: LanguageModelV1Prompt; warnings: LanguageModelV1CallWarning[] }> {
+	const budget = contextWindow - reservedTokens;
+	const warnings: LanguageModelV1CallWarning[] = [];
+
+	if (estimatePromptTokens(prompt) <= budget) {
+		return { prompt, warnings };
+	}
+
+	// [1] Trim the tool results that take up more than their share of the context.
+	const maxResultTokens = maxToolResultTokens ?? Math.floor(budget / 4);
+	let trimmedResults = 0;
+
+	let messages = prompt.map((message): PromptMessage => {
+		if (message.role !== "tool") {
+			return message;
+		}
+
+		return {
+			...message,
+			content: message.content.map((part) => {
+				const result = JSON.stringify(part.result) ?? "";
+				if (estimateTokens(result) <= maxResultTokens) {
+					return part;
+				}
+				trimmedResults++;
+				return {
+					...part,
+					result: `${result.slice(0, maxResultTokens * CHARS_PER_TOKEN)}... [truncated]`,
+				};
+			}),
+		};
+	});
+
+	if (trimmedResults > 0) {
+		warnings.push({
+			type: "other",
+			message: `Trimmed ${trimmedResults} tool result(s) to ${maxResultTokens} tokens to fit the context window of ${contextWindow} tokens.`,
+		});
+	}
+
+	// [2] Drop the oldest turns, keeping room for a summary of them if needed.
+	const systemMessages = messages.filter((message) => message.role === "system");
+	const turns = groupTurns(messages.filter((message) => message.role !== "system"));
+	const summaryTokens =
+		strategy === "summarize" ? Math.min(MAX_SUMMARY_TOKENS, Math.floor(budget / 4)) : 0;
+	const droppedMessages: PromptMessage[] = [];
+
+	const fits = () =>
+		estimatePromptTokens([...systemMessages, ...turns.flat()]) +
+			(droppedMessages.length > 0 ? summaryTokens + MESSAGE_TOKENS : 0) <=
+		budget;
+
+	while (turns.length > 1 && !fits()) {
+		droppedMessages.push(...turns.shift()!);
+	}
+
+	if (droppedMessages.length > 0) {
+		if (strategy === "summarize") {
+			// The transcript is cut from the start as well, so that the summary call fits.
+			const transcript = formatTranscript(droppedMessages);
+			const maxTranscriptLength = (contextWindow - 2 * summaryTokens) * CHARS_PER_TOKEN;
+			const summary = await summarize(
+				transcript.slice(Math.max(0, transcript.length - maxTranscriptLength)),
+				summaryTokens,
+			);
+
+			systemMessages.push({
+				role: "system",
+				content: `Summary of the earlier conversation:\n${summary}`,
+			});
+		}
+
+		warnings.push({
+			type: "other",
+			message: `${strategy === "summarize" ? "Summarized" : "Dropped"} the ${droppedMessages.length} oldest message(s) to fit the context window of ${contextWindow} tokens.`,
+		});
+	}
+
+	messages = [...systemMessages, ...turns.flat()];
+
+	const promptTokens = estimatePromptTokens(messages);
+	if (promptTokens > budget) {
+		warnings.push({
+			type: "other",
+			message: `The prompt is estimated at ${promptTokens} tokens after truncation, which leaves less than ${reservedTokens} of the ${contextWindow} tokens of the context window for the completion.`,
+		});
+	}
+
+	return { prompt: messages, warnings };
+}
+
+/**
+ * Splits the messages into turns that start with a user message, so that tool calls are
+ * never dropped without their results.
+ */
+function groupTurns(messages: PromptMessage[]): PromptMessage[][] {
+	const turns: PromptMessage[][] = [];
+
+	for (const message of messages) {
+		if (message.role === "user" || turns.length === 0) {
+			turns.push([message]);
+		} else {
+			turns[turns.length - 1]!.push(message);
+		}
+	}
+
+	return turns;
+}
+
+function formatTranscript(messages: PromptMessage[]): string {
+	return messages
+		.map((message) => {
+			if (message.role === "system") {
+				return `system: ${message.content}`;
+			}
+
+			const text = (message.content as PromptPart[])
+				.map((part) => {
+					switch (part.type) {
+						case "text": {
+							return part.text;
+						}
+						case "tool-call": {
+							return `[called ${part.toolName} with ${JSON.stringify(part.args ?? {})}]`;
+						}
+						case "tool-result": {
+							return `[${part.toolName} returned ${JSON.stringify(part.result)}]`;
+						}
+						default: {
+							return "";
+						}
+					}
+				})
+				.filter(Boolean)
+				.join("\n");
+
+			return `${message.role}: ${text}`;
+		})
+		.join("\n\n");
+}
@@ -1,4 +1,17 @@
-import type { LanguageModelV1, LanguageModelV1FunctionToolCall } from "@ai-sdk/provider";
+import {
+	APICallError,
+	type LanguageModelV1,
+	type LanguageModelV1FunctionToolCall,
+} from "@ai-sdk/provider";
+import {
+	generateId,
+	isAbortError,
+	removeUndefinedEntries,
+	withoutTrailingSlash,
+} from "@ai-sdk/provider-utils";
+import { z } from "zod";
+import { workersAIFailedResponseHandler } from "./workersai-error";
+import { withResponseHeaders } from "./workersai-response-metadata";
 
 /**
  * General AI run interface with overloads to handle distinct return types.
@@ -33,6 +46,18 @@ export interface AiRun {
 
 export type StringLike = string | { toString(): string };
 
+/**
+ * Validates a passthrough setting, which is sent to the run function as it is.
+ */
+export const stringLikeSchema = z.custom<StringLike>((value) => value != null);
+
+/**
+ * Validates the deprecated `gateway` setting of the models.
+ */
+export const gatewayOptionsSchema = z.custom<GatewayOptions>(
+	(value) => typeof value === "object" && value !== null,
+);
+
 /**
  * Parameters for configuring the Cloudflare-based AI runner.
  */
@@ -42,31 +67,56 @@ export interface CreateRunConfig {
 
 	/** Cloudflare API token/key with appropriate permissions. */
 	apiKey: string;
+
+	/**
+	 * Base URL of the run endpoint, e.g. to go through a proxy.
+	 * Defaults to `https://api.cloudflare.com/client/v4/accounts/{accountId}/ai/run`.
+	 */
+	baseURL?: string;
+
+	/** Custom headers sent with every request. */
+	headers?: Record<string, string>;
+
+	/** Custom fetch implementation, e.g. for proxies or test doubles. */
+	fetch?: typeof fetch;
 }
 
+/**
+ * Per-request options of the REST run method, on top of the binding's `AiOptions`.
+ */
+export type RunOptions = AiOptions & {
+	/** AbortSignal that cancels the request. */
+	signal?: AbortSignal;
+};
+
 /**
  * Creates a run method that emulates the Cloudflare Workers AI binding,
- * but uses the Cloudflare REST API under the hood. Headers and abort
- * signals are configured at creation time, rather than per-request.
+ * but uses the Cloudflare REST API under the hood. Headers are merged from
+ * the config and each request's `extraHeaders`, and each request can be
+ * cancelled with its own `signal`.
  *
  * @param config An object containing:
  *   - `accountId`: Cloudflare account identifier.
  *   - `apiKey`: Cloudflare API token/key with suitable permissions.
+ *   - `baseURL`: Optional base URL of the run endpoint.
  *   - `headers`: Optional custom headers to merge with defaults.
- *   - `signal`: Optional AbortSignal for request cancellation.
+ *   - `fetch`: Optional fetch implementation.
  *
  * @returns A function matching the AiRun interface.
  */
 export function createRun(config: CreateRunConfig): AiRun {
-	const { accountId, apiKey } = config;
+	const { accountId, apiKey, fetch = globalThis.fetch } = config;
+	const baseURL =
+		withoutTrailingSlash(config.baseURL) ??
+		`https://api.cloudflare.com/client/v4/accounts/${accountId}/ai/run`;
 
 	// Return the AiRun-compatible function.
 	return async function run<Name extends keyof AiModels>(
 		model: Name,
 		inputs: AiModels[Name]["inputs"],
-		options?: AiOptions & Record<string, StringLike>,
+		options?: RunOptions & Record<string, StringLike>,
 	): Promise<Response | ReadableStream<Uint8Array> | AiModels[Name]["postProcessedOutputs"]> {
-		const { gateway, prefix, extraHeaders, returnRawResponse, ...passthroughOptions } =
+		const { gateway, prefix, extraHeaders, returnRawResponse, signal, ...passthroughOptions } =
 			options || {};
 
 		const urlParams = new URLSearchParams();
@@ -85,43 +135,81 @@ export function createRun(config: CreateRunConfig): AiRun {
 			}
 		}
 
-		const url = `https://api.cloudflare.com/client/v4/accounts/${accountId}/ai/run/${model}${
-			urlParams ? `?${urlParams}` : ""
-		}`;
+		// Like the binding, a prefix namespaces the model id.
+		const modelId = prefix ? `${prefix}:${model}` : model;
+
+		const query = urlParams.toString();
+		const url = `${baseURL}/${modelId}${query ? `?${query}` : ""}`;
 
 		// Merge default and custom headers.
 		const headers = {
 			"Content-Type": "application/json",
 			Authorization: `Bearer ${apiKey}`,
+			...config.headers,
+			...(extraHeaders as Record<string, string> | undefined),
 		};
 
 		const body = JSON.stringify(inputs);
 
 		// Execute the POST request. The optional AbortSignal is applied here.
-		const response = await fetch(url, {
-			method: "POST",
-			headers,
-			body,
-		});
+		let response: Response;
+		try {
+			response = await fetch(url, {
+				method: "POST",
+				headers,
+				body,
+				signal,
+			});
+		} catch (error) {
+			if (isAbortError(error)) {
+				throw error;
+			}
+			// Network failures are worth retrying.
+			throw new APICallError({
+				message: `Cannot connect to API: ${error instanceof Error ? error.message : error}`,
+				cause: error,
+				url,
+				requestBodyValues: inputs,
+				isRetryable: true,
+			});
+		}
 
 		// (1) If the user explicitly requests the raw Response, return it as-is.
 		if (returnRawResponse) {
 			return response;
 		}
 
+		// Turn non-2xx responses into typed errors, for streaming and non-streaming calls alike.
+		if (!response.ok) {
+			const { value: error } = await workersAIFailedResponseHandler({
+				url,
+				requestBodyValues: inputs,
+				response,
+			});
+			throw error;
+		}
+
 		// (2) If the AI input requests streaming, return the ReadableStream if available.
 		if ((inputs as AiTextGenerationInput).stream === true) {
 			if (response.body) {
-				return response.body;
+				return withResponseHeaders(response.body, response);
 			}
 			throw new Error("No readable body available for streaming.");
 		}
 
-		// (3) In all other cases, parse JSON and return the result field.
+		// (3) Binary outputs, such as images and audio, are returned as a stream, like the binding does.
+		if (/^(audio|image)\//.test(response.headers.get("Content-Type") ?? "")) {
+			if (response.body) {
+				return withResponseHeaders(response.body, response);
+			}
+			throw new Error("No readable body available for the binary output.");
+		}
+
+		// (4) In all other cases, parse JSON and return the result field.
 		const data = await response.json<{
 			result: AiModels[Name]["postProcessedOutputs"];
 		}>();
-		return data.result;
+		return withResponseHeaders(data.result, response);
 	};
 }
 
@@ -178,53 +266,96 @@ export function prepareToolsAndToolChoice(
 	}
 }
 
+/**
+ * Maps the AI SDK's per-call abort signal and headers to run options.
+ */
+export function getCallRunOptions({
+	abortSignal,
+	headers,
+}: {
+	abortSignal?: AbortSignal;
+	headers?: Record<string, string | undefined>;
+}): { signal?: AbortSignal; extraHeaders?: Record<string, string> } {
+	return {
+		...(abortSignal ? { signal: abortSignal } : {}),
+		...(headers ? { extraHeaders: removeUndefinedEntries(headers) } : {}),
+	};
+}
+
 export function lastMessageWasUser<T extends { role: string }>(messages: T[]) {
 	return messages.length > 0 && messages[messages.length - 1]!.role === "user";
 }
 
-function mergePartialToolCalls(partialCalls: any[]) {
-	const mergedCallsByIndex: any = {};
+/**
+ * Merges one streamed tool call fragment into the calls collected so far, keyed by the
+ * fragment's call index. Returns the merged call for that index.
+ *
+ * The id is fixed by the first fragment of a call, or generated when it has none, so that
+ * every delta of the call and the final call share it.
+ */
+export function mergePartialToolCall(mergedCallsByIndex: Record<number, any>, partialCall: any) {
+	const index = partialCall.index;
+
+	if (!mergedCallsByIndex[index]) {
+		mergedCallsByIndex[index] = {
+			id: partialCall.id || generateId(),
+			type: partialCall.type || "",
+			function: {
+				name: partialCall.function?.name || "",
+				arguments: "",
+			},
+		};
+	} else {
+		if (partialCall.type) {
+			mergedCallsByIndex[index].type = partialCall.type;
+		}
+
+		if (partialCall.function?.name) {
+			mergedCallsByIndex[index].function.name = partialCall.function.name;
+		}
+	}
 
-	for (const partialCall of partialCalls) {
-		const index = partialCall.index;
+	// Append arguments if available, this assumes arguments come in the right order
+	if (partialCall.function?.arguments) {
+		mergedCallsByIndex[index].function.arguments += partialCall.function.arguments;
+	}
 
-		if (!mergedCallsByIndex[index]) {
-			mergedCallsByIndex[index] = {
-				id: partialCall.id || "",
-				type: partialCall.type || "",
-				function: {
-					name: partialCall.function?.name || "",
-					arguments: "",
-				},
-			};
-		} else {
-			if (partialCall.id) {
-				mergedCallsByIndex[index].id = partialCall.id;
-			}
-			if (partialCall.type) {
-				mergedCallsByIndex[index].type = partialCall.type;
-			}
+	return mergedCallsByIndex[index];
+}
 
-			if (partialCall.function?.name) {
-				mergedCallsByIndex[index].function.name = partialCall.function.name;
-			}
-		}
+/**
+ * Converts a streamed tool call into the OpenAI fragment format. Native Workers AI chunks
+ * carry a whole call (`{ name, arguments }`), and some models send whole OpenAI-style calls,
+ * without an index, so these get `nextIndex`.
+ */
+export function normalizePartialToolCall(partialCall: any, nextIndex: number) {
+	if (partialCall.index != null) {
+		return partialCall;
+	}
 
-		// Append arguments if available, this assumes arguments come in the right order
-		if (partialCall.function?.arguments) {
-			mergedCallsByIndex[index].function.arguments += partialCall.function.arguments;
-		}
+	if (partialCall.function) {
+		return { ...partialCall, index: nextIndex };
 	}
 
-	return Object.values(mergedCallsByIndex);
+	return {
+		index: nextIndex,
+		type: "function",
+		function: {
+			name: partialCall.name,
+			arguments:
+				typeof partialCall.arguments === "string"
+					? partialCall.arguments
+					: JSON.stringify(partialCall.arguments || {}),
+		},
+	};
 }
 
 function processToolCall(toolCall: any): LanguageModelV1FunctionToolCall {
 	// Check for OpenAI format tool calls first
-	if (toolCall.function && toolCall.id) {
+	if (toolCall.function) {
 		return {
 			toolCallType: "function",
-			toolCallId: toolCall.id,
+			toolCallId: toolCall.id || generateId(),
 			toolName: toolCall.function.name,
 			args:
 				typeof toolCall.function.arguments === "string"
@@ -234,7 +365,7 @@ function processToolCall(toolCall: any): LanguageModelV1FunctionToolCall {
 	}
 	return {
 		toolCallType: "function",
-		toolCallId: toolCall.name,
+		toolCallId: toolCall.id || generateId(),
 		toolName: toolCall.name,
 		args:
 			typeof toolCall.arguments === "string"
@@ -254,7 +385,26 @@ export function processToolCalls(output: any): LanguageModelV1FunctionToolCall[]
 	return [];
 }
 
-export function processPartialToolCalls(partialToolCalls: any[]) {
-	const mergedToolCalls = mergePartialToolCalls(partialToolCalls);
-	return processToolCalls({ tool_calls: mergedToolCalls });
+/**
+ * Runs `task` for the indices below `count`, with at most `concurrency` runs at once, and
+ * returns the results in order.
+ */
+export async function runConcurrently<T>(
+	count: number,
+	concurrency: number,
+	task: (index: number) => Promise<T>,
+): Promise<T[]> {
+	const results: T[] = new Array(count);
+	let next = 0;
+
+	const worker = async () => {
+		while (next < count) {
+			const index = next++;
+			results[index] = await task(index);
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.max(1, Math.min(count, concurrency)) }, worker));
+
+	return results;
 }
@@ -0,0 +1,89 @@
+import type { EmbeddingModelV2 } from "@ai-sdk/provider-v2";
+import { parseProviderOptions } from "@ai-sdk/provider-utils";
+import { z } from "zod";
+import {
+	type WorkersAIEmbeddingConfig,
+	WorkersAIEmbeddingModel,
+	type WorkersAIEmbeddingSettings,
+} from "./workers-ai-embedding-model";
+import type { EmbeddingModels } from "./workersai-models";
+import { getWorkersAIResponseMetadata } from "./workersai-response-metadata";
+import { gatewayOptionsSchema, stringLikeSchema } from "./utils";
+
+/**
+ * Validates `providerOptions.workersai`, which overrides the settings of the model.
+ */
+const workersAIEmbeddingProviderOptionsSchema = z
+	.object({
+		gateway: gatewayOptionsSchema.optional(),
+		maxEmbeddingsPerCall: z.number().optional(),
+		supportsParallelCalls: z.boolean().optional(),
+	})
+	.catchall(stringLikeSchema);
+
+/**
+ * The embedding model for AI SDK 5. It runs the calls through
+ * {@link WorkersAIEmbeddingModel}, with passthrough settings overridden by
+ * `providerOptions.workersai`, and returns the response metadata as provider metadata.
+ */
+export class WorkersAIEmbeddingModelV2 implements EmbeddingModelV2<string> {
+	readonly specificationVersion = "v2";
+
+	constructor(
+		readonly modelId: EmbeddingModels,
+		private readonly settings: WorkersAIEmbeddingSettings,
+		private readonly config: WorkersAIEmbeddingConfig,
+	) {}
+
+	get provider(): string {
+		return this.config.provider;
+	}
+
+	get maxEmbeddingsPerCall(): number {
+		return this.getModel({}).maxEmbeddingsPerCall;
+	}
+
+	get supportsParallelCalls(): boolean {
+		return this.getModel({}).supportsParallelCalls;
+	}
+
+	async doEmbed({
+		values,
+		abortSignal,
+		headers,
+		providerOptions,
+	}: Parameters<EmbeddingModelV2<string>["doEmbed"]>[0]): Promise<
+		Awaited<ReturnType<EmbeddingModelV2<string>["doEmbed"]>>
+	> {
+		const { embeddings, rawResponse } = await this.getModel({ providerOptions }).doEmbed({
+			values,
+			abortSignal,
+			headers,
+		});
+
+		return {
+			embeddings,
+			providerMetadata: {
+				workersai: { ...getWorkersAIResponseMetadata(rawResponse?.headers) },
+			},
+			response: { headers: rawResponse?.headers },
+		};
+	}
+
+	private getModel({
+		providerOptions,
+	}: Pick<Parameters<EmbeddingModelV2<string>["doEmbed"]>[0], "providerOptions">) {
+		return new WorkersAIEmbeddingModel(
+			this.modelId,
+			{
+				...this.settings,
+				...parseProviderOptions({
+					provider: "workersai",
+					providerOptions,
+					schema: workersAIEmbeddingProviderOptionsSchema,
+				}),
+			},
+			this.config,
+		);
+	}
+}
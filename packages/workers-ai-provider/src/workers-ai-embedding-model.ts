@@ -1,6 +1,12 @@
-import { TooManyEmbeddingValuesForCallError, type EmbeddingModelV1 } from "@ai-sdk/provider";
-import type { StringLike } from "./utils";
+import {
+	TooManyEmbeddingValuesForCallError,
+	type EmbeddingModelV1,
+	type EmbeddingModelV1Embedding,
+} from "@ai-sdk/provider";
+import { getCallRunOptions, type StringLike } from "./utils";
+import { submitWorkersAIBatch, WorkersAIBatch, type WorkersAIBatchResult } from "./workersai-batch";
 import type { EmbeddingModels } from "./workersai-models";
+import { getResponseHeaders } from "./workersai-response-metadata";
 
 export type WorkersAIEmbeddingConfig = {
 	provider: string;
@@ -58,6 +64,8 @@ export class WorkersAIEmbeddingModel implements EmbeddingModelV1<string> {
 
 	async doEmbed({
 		values,
+		abortSignal,
+		headers,
 	}: Parameters<EmbeddingModelV1<string>["doEmbed"]>[0]): Promise<
 		Awaited<ReturnType<EmbeddingModelV1<string>["doEmbed"]>>
 	> {
@@ -70,18 +78,100 @@ export class WorkersAIEmbeddingModel implements EmbeddingModelV1<string> {
 			});
 		}
 
-		const { gateway, ...passthroughOptions } = this.settings;
-
 		const response = await this.config.binding.run(
 			this.modelId,
 			{
 				text: values,
 			},
-			{ gateway: this.config.gateway ?? gateway, ...passthroughOptions },
+			{
+				...this.getRunOptions(),
+				...getCallRunOptions({ abortSignal, headers }),
+			},
 		);
 
+		// The embedding interface has no provider metadata, so the ids are in the headers.
 		return {
 			embeddings: response.data,
+			rawResponse: { headers: getResponseHeaders(this.config.binding, response) },
+		};
+	}
+
+	/**
+	 * Queues the values with the Workers AI batch API, in requests of up to
+	 * `maxEmbeddingsPerCall` values. The returned handle polls for one embedding per value, in
+	 * the order of the values. The values of a failed request get its error.
+	 */
+	async doEmbedBatch({
+		values,
+		abortSignal,
+		headers,
+	}: Parameters<EmbeddingModelV1<string>["doEmbed"]>[0]): Promise<
+		WorkersAIBatch<EmbeddingModelV1Embedding>
+	> {
+		const requests: Array<{ text: string[] }> = [];
+		for (let start = 0; start < values.length; start += this.maxEmbeddingsPerCall) {
+			requests.push({ text: values.slice(start, start + this.maxEmbeddingsPerCall) });
+		}
+
+		const requestId = await submitWorkersAIBatch({
+			binding: this.config.binding,
+			modelId: this.modelId,
+			requests,
+			runOptions: this.getRunOptions(),
+			abortSignal,
+			headers,
+		});
+
+		return this.resumeBatch(requestId, values);
+	}
+
+	/**
+	 * Recreates the handle of a batch from its request id, e.g. in a later run of a job. Pass
+	 * the values of the batch so that a failed last request reports its error for each of its
+	 * values; without them, the error is reported once, for its first value.
+	 */
+	resumeBatch(requestId: string, values?: string[]): WorkersAIBatch<EmbeddingModelV1Embedding> {
+		const { maxEmbeddingsPerCall } = this;
+
+		return new WorkersAIBatch(requestId, this.modelId, {
+			binding: this.config.binding,
+			runOptions: this.getRunOptions(),
+			// Request `index` holds the values from `index * maxEmbeddingsPerCall` on.
+			mapResults: (responses) =>
+				responses.flatMap<WorkersAIBatchResult<EmbeddingModelV1Embedding>>((response) => {
+					const start = response.index * maxEmbeddingsPerCall;
+
+					if ("error" in response) {
+						const isLast = response === responses.at(-1);
+						const count = values
+							? Math.min(maxEmbeddingsPerCall, values.length - start)
+							: isLast
+								? 1
+								: maxEmbeddingsPerCall;
+
+						return Array.from({ length: count }, (_, offset) => ({
+							index: start + offset,
+							error: response.error,
+						}));
+					}
+
+					return (response.result as { data: number[][] }).data.map(
+						(embedding, offset) => ({ index: start + offset, result: embedding }),
+					);
+				}),
+		});
+	}
+
+	/**
+	 * Options for the run calls: the gateway and passthrough settings.
+	 */
+	private getRunOptions() {
+		const { gateway, maxEmbeddingsPerCall, supportsParallelCalls, ...passthroughOptions } =
+			this.settings;
+
+		return {
+			gateway: this.config.gateway ?? gateway,
+			...passthroughOptions,
 		};
 	}
 }
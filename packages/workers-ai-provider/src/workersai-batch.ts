@@ -0,0 +1,181 @@
+import { delay } from "@ai-sdk/provider-utils";
+import { getCallRunOptions } from "./utils";
+
+/**
+ * Outcome of one request of a batch, or of one input of a request that holds several: its
+ * result, or the error it failed with. `index` is the position of the request or input.
+ */
+export type WorkersAIBatchResult<RESULT> =
+	| { index: number; result: RESULT }
+	| { index: number; error: unknown };
+
+/**
+ * Status of a queued batch. Its results are available once it is complete, in the order the
+ * requests or inputs were submitted.
+ */
+export type WorkersAIBatchStatus<RESULT> =
+	| { status: "queued" | "running" }
+	| { status: "complete"; results: Array<WorkersAIBatchResult<RESULT>> };
+
+type WorkersAIBatchOutput = {
+	status?: string;
+	request_id?: string;
+	responses?: Array<{
+		id?: number;
+		external_reference?: string;
+		success?: boolean;
+		result?: unknown;
+		error?: unknown;
+	}>;
+};
+
+type WorkersAIBatchConfig<RESULT> = {
+	binding: Ai;
+
+	/**
+	 * Gateway and passthrough options of the run calls.
+	 */
+	runOptions: Record<string, unknown>;
+
+	/**
+	 * Maps the outcomes of the requests, in order, to the results of the batch: one per
+	 * request, or one per input for requests that hold several inputs.
+	 */
+	mapResults: (
+		responses: Array<WorkersAIBatchResult<unknown>>,
+	) => Array<WorkersAIBatchResult<RESULT>>;
+};
+
+type WorkersAIBatchCallOptions = {
+	abortSignal?: AbortSignal;
+	headers?: Record<string, string | undefined>;
+};
+
+const DEFAULT_POLL_INTERVAL_IN_MS = 10_000;
+
+/**
+ * Queues the inputs of many requests with the Workers AI batch API and returns the id to
+ * poll for their results. Each request is tagged with its index, so that the results can be
+ * put back in order.
+ */
+export async function submitWorkersAIBatch({
+	binding,
+	modelId,
+	requests,
+	runOptions,
+	abortSignal,
+	headers,
+}: {
+	binding: Ai;
+	modelId: string;
+	requests: object[];
+	runOptions: Record<string, unknown>;
+} & WorkersAIBatchCallOptions): Promise<string> {
+	const output = await runBatch(
+		binding,
+		modelId,
+		{
+			requests: requests.map((request, index) => ({
+				...request,
+				external_reference: String(index),
+			})),
+		},
+		{ ...runOptions, ...getCallRunOptions({ abortSignal, headers }) },
+	);
+
+	if (!output.request_id) {
+		throw new Error(`${modelId} did not queue the batch. Check that it supports batches.`);
+	}
+
+	return output.request_id;
+}
+
+/**
+ * A handle to a queued batch, which polls for its results. It can be recreated from its
+ * request id, e.g. in a later run of a job.
+ */
+export class WorkersAIBatch<RESULT> {
+	constructor(
+		readonly requestId: string,
+		readonly modelId: string,
+		private readonly config: WorkersAIBatchConfig<RESULT>,
+	) {}
+
+	/**
+	 * Checks the status of the batch once, and returns the results if it is complete. Failed
+	 * requests are returned as errors, next to the results of the others.
+	 */
+	async poll({
+		abortSignal,
+		headers,
+	}: WorkersAIBatchCallOptions = {}): Promise<WorkersAIBatchStatus<RESULT>> {
+		const output = await runBatch(
+			this.config.binding,
+			this.modelId,
+			{ request_id: this.requestId },
+			{ ...this.config.runOptions, ...getCallRunOptions({ abortSignal, headers }) },
+		);
+
+		if (!output.responses) {
+			return { status: output.status === "running" ? "running" : "queued" };
+		}
+
+		const responses = [...output.responses].sort(
+			(a, b) => getRequestIndex(a) - getRequestIndex(b),
+		);
+
+		return {
+			status: "complete",
+			results: this.config.mapResults(
+				responses.map((response) => {
+					const index = getRequestIndex(response);
+					return response.success === false
+						? { index, error: response.error ?? response.result }
+						: { index, result: response.result };
+				}),
+			),
+		};
+	}
+
+	/**
+	 * Polls until the batch is complete and returns its results.
+	 */
+	async wait({
+		pollIntervalInMs = DEFAULT_POLL_INTERVAL_IN_MS,
+		abortSignal,
+		headers,
+	}: WorkersAIBatchCallOptions & { pollIntervalInMs?: number } = {}): Promise<
+		Array<WorkersAIBatchResult<RESULT>>
+	> {
+		while (true) {
+			const result = await this.poll({ abortSignal, headers });
+			if (result.status === "complete") {
+				return result.results;
+			}
+
+			abortSignal?.throwIfAborted();
+			await delay(pollIntervalInMs);
+			abortSignal?.throwIfAborted();
+		}
+	}
+}
+
+async function runBatch(
+	binding: Ai,
+	modelId: string,
+	inputs: { requests: object[] } | { request_id: string },
+	runOptions: Record<string, unknown>,
+): Promise<WorkersAIBatchOutput> {
+	return (await binding.run(
+		// @ts-expect-error batches run on models of any task
+		modelId,
+		inputs,
+		{ ...runOptions, queueRequest: true },
+	)) as WorkersAIBatchOutput;
+}
+
+function getRequestIndex(response: { id?: number; external_reference?: string }): number {
+	return response.external_reference !== undefined
+		? Number(response.external_reference)
+		: (response.id ?? 0);
+}
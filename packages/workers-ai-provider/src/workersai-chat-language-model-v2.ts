@@ -0,0 +1,94 @@
+import type { LanguageModelV2, LanguageModelV2CallOptions } from "@ai-sdk/provider-v2";
+import { parseProviderOptions } from "@ai-sdk/provider-utils";
+import { z } from "zod";
+import { doGenerateV2, doStreamV2 } from "./language-model-v2-adapter";
+import {
+	type WorkersAIChatConfig,
+	WorkersAIChatLanguageModel,
+} from "./workersai-chat-language-model";
+import type { WorkersAIChatSettings } from "./workersai-chat-settings";
+import type { WorkersAIModelCapabilities } from "./workersai-model-capabilities";
+import type { TextGenerationModels } from "./workersai-models";
+import { gatewayOptionsSchema, stringLikeSchema } from "./utils";
+
+/**
+ * Validates `providerOptions.workersai`, which overrides the settings of the model.
+ */
+const workersAIChatProviderOptionsSchema = z
+	.object({
+		safePrompt: z.boolean().optional(),
+		lora: z.string().optional(),
+		repetitionPenalty: z.number().optional(),
+		emulateToolCalling: z.boolean().optional(),
+		truncatePrompt: z
+			.union([
+				z.boolean(),
+				z.object({
+					strategy: z.enum(["drop-oldest", "summarize"]).optional(),
+					contextWindow: z.number().optional(),
+					maxToolResultTokens: z.number().optional(),
+				}),
+			])
+			.optional(),
+		extractReasoning: z.boolean().optional(),
+		maxImageSizeInBytes: z.number().optional(),
+		gateway: gatewayOptionsSchema.optional(),
+	})
+	.catchall(stringLikeSchema);
+
+/**
+ * The chat model for AI SDK 5. It runs the calls through {@link WorkersAIChatLanguageModel},
+ * with the settings overridden by `providerOptions.workersai`.
+ */
+export class WorkersAIChatLanguageModelV2 implements LanguageModelV2 {
+	readonly specificationVersion = "v2";
+
+	constructor(
+		readonly modelId: TextGenerationModels,
+		readonly settings: WorkersAIChatSettings,
+		private readonly config: WorkersAIChatConfig,
+	) {}
+
+	get provider(): string {
+		return this.config.provider;
+	}
+
+	/**
+	 * What this model supports, from the capability registry.
+	 */
+	get capabilities(): WorkersAIModelCapabilities {
+		return this.getModel({}).capabilities;
+	}
+
+	get supportedUrls(): Record<string, RegExp[]> {
+		// Image URLs are downloaded by the provider, for the models that take images.
+		return this.capabilities.vision !== "none" ? { "image/*": [/^https?:\/\/.*$/] } : {};
+	}
+
+	async doGenerate(
+		options: LanguageModelV2CallOptions,
+	): Promise<Awaited<ReturnType<LanguageModelV2["doGenerate"]>>> {
+		return doGenerateV2(this.getModel(options), options);
+	}
+
+	async doStream(
+		options: LanguageModelV2CallOptions,
+	): Promise<Awaited<ReturnType<LanguageModelV2["doStream"]>>> {
+		return doStreamV2(this.getModel(options), options);
+	}
+
+	private getModel({ providerOptions }: Pick<LanguageModelV2CallOptions, "providerOptions">) {
+		return new WorkersAIChatLanguageModel(
+			this.modelId,
+			{
+				...this.settings,
+				...parseProviderOptions({
+					provider: "workersai",
+					providerOptions,
+					schema: workersAIChatProviderOptionsSchema,
+				}),
+			},
+			this.config,
+		);
+	}
+}
@@ -1,21 +1,65 @@
 import {
 	type LanguageModelV1,
 	type LanguageModelV1CallWarning,
+	type LanguageModelV1Prompt,
 	type LanguageModelV1StreamPart,
 	UnsupportedFunctionalityError,
 } from "@ai-sdk/provider";
-import { convertToWorkersAIChatMessages } from "./convert-to-workersai-chat-messages";
+import {
+	convertToWorkersAIChatMessages,
+	getMessageText,
+} from "./convert-to-workersai-chat-messages";
 import type { WorkersAIChatSettings } from "./workersai-chat-settings";
+import {
+	checkModelSettings,
+	getWorkersAIModelCapabilities,
+	type WorkersAIModelCapabilities,
+	type WorkersAIToolCallFormat,
+} from "./workersai-model-capabilities";
 import type { TextGenerationModels } from "./workersai-models";
 
+import {
+	type EmulatedTool,
+	injectToolPrompt,
+	parseEmulatedToolCalls,
+} from "./emulate-tool-calling";
+import { getWorkersAIFinishReason, mapWorkersAIFinishReason } from "./map-workersai-finish-reason";
 import { mapWorkersAIUsage } from "./map-workersai-usage";
+import { getResponseHeaders, getWorkersAIResponseMetadata } from "./workersai-response-metadata";
+import { splitReasoning } from "./split-reasoning";
+import { submitWorkersAIBatch, WorkersAIBatch } from "./workersai-batch";
 import { getMappedStream } from "./streaming";
-import { lastMessageWasUser, prepareToolsAndToolChoice, processToolCalls } from "./utils";
+import { estimateTokens, truncatePromptToFit } from "./truncate-prompt";
+import {
+	getCallRunOptions,
+	lastMessageWasUser,
+	prepareToolsAndToolChoice,
+	processToolCalls,
+} from "./utils";
+
+/**
+ * What the output of a call is mapped with.
+ */
+type WorkersAIChatCallContext = {
+	args: Record<string, unknown>;
+	emulatedTools?: { tools: EmulatedTool[]; tool_choice?: string };
+	warnings: LanguageModelV1CallWarning[];
+	messages?: unknown;
+};
 
-type WorkersAIChatConfig = {
+export type WorkersAIChatConfig = {
 	provider: string;
 	binding: Ai;
 	gateway?: GatewayOptions;
+	/**
+	 * Overrides the tool call format of the model, for backends that apply their own
+	 * chat templates.
+	 */
+	toolCallFormat?: WorkersAIToolCallFormat;
+	/**
+	 * Custom fetch implementation used to download image URLs.
+	 */
+	fetch?: typeof fetch;
 };
 
 export class WorkersAIChatLanguageModel implements LanguageModelV1 {
@@ -41,32 +85,46 @@ export class WorkersAIChatLanguageModel implements LanguageModelV1 {
 		return this.config.provider;
 	}
 
+	/**
+	 * What this model supports, from the capability registry.
+	 */
+	get capabilities(): WorkersAIModelCapabilities {
+		return getWorkersAIModelCapabilities(this.modelId);
+	}
+
+	get supportsImageUrls(): boolean {
+		// Image URLs are downloaded by the provider, for the models that take images.
+		return this.capabilities.vision !== "none";
+	}
+
+	get supportsStructuredOutputs(): boolean {
+		return this.capabilities.jsonSchema;
+	}
+
 	private getArgs({
 		mode,
 		maxTokens,
 		temperature,
 		topP,
+		topK,
 		frequencyPenalty,
 		presencePenalty,
+		stopSequences,
 		seed,
 	}: Parameters<LanguageModelV1["doGenerate"]>[0]) {
 		const type = mode.type;
 
 		const warnings: LanguageModelV1CallWarning[] = [];
 
-		if (frequencyPenalty != null) {
-			warnings.push({
-				type: "unsupported-setting",
-				setting: "frequencyPenalty",
-			});
-		}
+		const { functionCalling, jsonSchema } = this.capabilities;
+		const { emulateToolCalling } = this.settings;
 
-		if (presencePenalty != null) {
-			warnings.push({
-				type: "unsupported-setting",
-				setting: "presencePenalty",
-			});
-		}
+		const supported = checkModelSettings({
+			modelId: this.modelId,
+			capabilities: this.capabilities,
+			lora: this.settings.lora,
+			warnings,
+		});
 
 		const baseArgs = {
 			// model id:
@@ -74,16 +132,41 @@ export class WorkersAIChatLanguageModel implements LanguageModelV1 {
 
 			// model specific settings:
 			safe_prompt: this.settings.safePrompt,
+			lora: this.settings.lora,
+			repetition_penalty: supported("repetitionPenalty", this.settings.repetitionPenalty),
 
 			// standardized settings:
 			max_tokens: maxTokens,
 			temperature,
-			top_p: topP,
-			random_seed: seed,
+			top_p: supported("topP", topP),
+			top_k: supported("topK", topK),
+			seed: supported("seed", seed),
+			frequency_penalty: supported("frequencyPenalty", frequencyPenalty),
+			presence_penalty: supported("presencePenalty", presencePenalty),
+			stop: supported("stopSequences", stopSequences?.length ? stopSequences : undefined),
 		};
 
 		switch (type) {
 			case "regular": {
+				if (emulateToolCalling) {
+					const { tools, tool_choice } = prepareToolsAndToolChoice(mode);
+
+					return {
+						args: { ...baseArgs, tools: undefined },
+						// With no tool choice, the tools are left out of the prompt as well.
+						emulatedTools:
+							tools && tool_choice !== "none" ? { tools, tool_choice } : undefined,
+						warnings,
+					};
+				}
+
+				if (mode.tools?.length && !functionCalling) {
+					throw new UnsupportedFunctionalityError({
+						functionality: "tools",
+						message: `${this.modelId} does not support function calling. Set emulateToolCalling to call tools through the prompt instead.`,
+					});
+				}
+
 				return {
 					args: { ...baseArgs, ...prepareToolsAndToolChoice(mode) },
 					warnings,
@@ -91,13 +174,23 @@ export class WorkersAIChatLanguageModel implements LanguageModelV1 {
 			}
 
 			case "object-json": {
+				if (!jsonSchema) {
+					// The AI SDK puts the schema in the prompt instead.
+					warnings.push({
+						type: "other",
+						message: `${this.modelId} does not support JSON schema output. The schema is only given in the prompt.`,
+					});
+				}
+
 				return {
 					args: {
 						...baseArgs,
-						response_format: {
-							type: "json_schema",
-							json_schema: mode.schema,
-						},
+						response_format: jsonSchema
+							? {
+									type: "json_schema",
+									json_schema: mode.schema,
+								}
+							: undefined,
 						tools: undefined,
 					},
 					warnings,
@@ -105,6 +198,24 @@ export class WorkersAIChatLanguageModel implements LanguageModelV1 {
 			}
 
 			case "object-tool": {
+				if (emulateToolCalling) {
+					return {
+						args: { ...baseArgs, tools: undefined },
+						emulatedTools: {
+							tools: [{ type: "function", function: mode.tool }],
+							tool_choice: "any",
+						},
+						warnings,
+					};
+				}
+
+				if (!functionCalling) {
+					throw new UnsupportedFunctionalityError({
+						functionality: "object-tool mode",
+						message: `${this.modelId} does not support function calling. Use the json mode, or set emulateToolCalling.`,
+					});
+				}
+
 				return {
 					args: {
 						...baseArgs,
@@ -130,78 +241,356 @@ export class WorkersAIChatLanguageModel implements LanguageModelV1 {
 		}
 	}
 
-	async doGenerate(
+	/**
+	 * Options for the run call: the gateway, passthrough settings, and the abort signal and
+	 * headers of this call.
+	 */
+	private getRunOptions(options: Parameters<LanguageModelV1["doGenerate"]>[0]) {
+		return {
+			...this.getBatchRunOptions(),
+			...getCallRunOptions(options),
+		};
+	}
+
+	/**
+	 * Options for the run calls of a batch: the gateway and passthrough settings.
+	 */
+	private getBatchRunOptions() {
+		const {
+			gateway,
+			safePrompt,
+			lora,
+			truncatePrompt,
+			extractReasoning,
+			emulateToolCalling,
+			maxImageSizeInBytes,
+			repetitionPenalty,
+			...passthroughOptions
+		} = this.settings;
+
+		return {
+			gateway: this.config.gateway ?? gateway,
+			...passthroughOptions,
+		};
+	}
+
+	/**
+	 * Fits the prompt into the context window of the model when `truncatePrompt` is set, and
+	 * adds a warning for everything that was cut.
+	 */
+	private async getPrompt(
 		options: Parameters<LanguageModelV1["doGenerate"]>[0],
-	): Promise<Awaited<ReturnType<LanguageModelV1["doGenerate"]>>> {
-		const { args, warnings } = this.getArgs(options);
+		warnings: LanguageModelV1CallWarning[],
+	): Promise<LanguageModelV1Prompt> {
+		const { truncatePrompt } = this.settings;
 
-		const { gateway, safePrompt, ...passthroughOptions } = this.settings;
+		if (!truncatePrompt) {
+			return options.prompt;
+		}
 
-		// Extract image from messages if present
-		const { messages, images } = convertToWorkersAIChatMessages(options.prompt);
+		const { strategy, maxToolResultTokens, ...truncation } =
+			truncatePrompt === true ? {} : truncatePrompt;
+		const contextWindow = truncation.contextWindow ?? this.capabilities.contextWindow;
 
-		// TODO: support for multiple images
-		if (images.length !== 0 && images.length !== 1) {
-			throw new Error("Multiple images are not yet supported as input");
+		if (contextWindow === undefined) {
+			warnings.push({
+				type: "other",
+				message: `The context window of ${this.modelId} is unknown, so the prompt is not truncated. Set truncatePrompt.contextWindow to truncate it.`,
+			});
+			return options.prompt;
 		}
 
-		const imagePart = images[0];
+		const { mode } = options;
+		const tools =
+			mode.type === "regular" ? mode.tools : mode.type === "object-tool" ? [mode.tool] : [];
+
+		const truncated = await truncatePromptToFit({
+			prompt: options.prompt,
+			contextWindow,
+			// Workers AI generates 256 tokens unless told otherwise.
+			reservedTokens:
+				(options.maxTokens ?? 256) + estimateTokens(JSON.stringify(tools ?? [])),
+			strategy,
+			maxToolResultTokens,
+			summarize: async (transcript, maxTokens) => {
+				// Vision models have their own output types, but answer text prompts like the others.
+				const output = (await this.config.binding.run(
+					this.modelId,
+					{
+						messages: [
+							{
+								role: "system",
+								content:
+									"Summarize the following conversation in a few sentences. Keep the names, facts and decisions that later messages may refer to.",
+							},
+							{ role: "user", content: transcript },
+						],
+						max_tokens: maxTokens,
+					},
+					this.getRunOptions(options),
+				)) as AiTextGenerationOutput;
 
-		const output = await this.config.binding.run(
-			args.model,
-			{
-				messages: messages,
-				max_tokens: args.max_tokens,
-				temperature: args.temperature,
-				tools: args.tools,
-				top_p: args.top_p,
-				// Convert Uint8Array to Array of integers for Llama 3.2 Vision model
-				// TODO: maybe use the base64 string version?
-				...(imagePart ? { image: Array.from(imagePart.image) } : {}),
-				// @ts-expect-error response_format not yet added to types
-				response_format: args.response_format,
+				if (output instanceof ReadableStream || typeof output.response !== "string") {
+					throw new Error("This shouldn't happen");
+				}
+
+				return splitReasoning(output.response, this.capabilities.reasoning).text;
 			},
-			{ gateway: this.config.gateway ?? gateway, ...passthroughOptions },
-		);
+		});
 
-		if (output instanceof ReadableStream) {
-			throw new Error("This shouldn't happen");
+		warnings.push(...truncated.warnings);
+		return truncated.prompt;
+	}
+
+	private async getMessages(
+		prompt: LanguageModelV1Prompt,
+		emulatedTools: { tools: EmulatedTool[]; tool_choice?: string } | undefined,
+	) {
+		const { emulateToolCalling } = this.settings;
+
+		const converted = await convertToWorkersAIChatMessages(prompt, {
+			maxImageSizeInBytes: this.settings.maxImageSizeInBytes,
+			fetch: this.config.fetch,
+			toolCallFormat: emulateToolCalling
+				? "openai"
+				: (this.config.toolCallFormat ?? this.capabilities.toolCallFormat),
+		});
+		const { images } = converted;
+
+		const messages = emulateToolCalling
+			? injectToolPrompt(
+					converted.messages,
+					emulatedTools?.tools ?? [],
+					emulatedTools?.tool_choice,
+				)
+			: converted.messages;
+
+		const { vision } = this.capabilities;
+
+		if (images.length > 0 && vision === "none") {
+			throw new UnsupportedFunctionalityError({
+				functionality: "image inputs",
+				message: `${this.modelId} does not support image inputs.`,
+			});
+		}
+
+		if (vision !== "single-image") {
+			return { messages, imageInputs: {} };
 		}
 
+		if (images.length > 1) {
+			throw new UnsupportedFunctionalityError({
+				functionality: "multiple images",
+				message: `${this.modelId} accepts a single image per request, but the prompt contains ${images.length}.`,
+			});
+		}
+
+		const imagePart = images[0];
+
+		return {
+			messages: messages.map((message) =>
+				message.role === "user"
+					? { ...message, content: getMessageText(message) }
+					: message,
+			),
+			// Convert Uint8Array to Array of integers for Llama 3.2 Vision model
+			imageInputs: imagePart ? { image: Array.from(imagePart.image) } : {},
+		};
+	}
+
+	/**
+	 * Prepares a call: the args, the inputs of the run call, and the messages and emulated
+	 * tools that its output is mapped with.
+	 */
+	private async getCall(options: Parameters<LanguageModelV1["doGenerate"]>[0]) {
+		const { args, emulatedTools, warnings } = this.getArgs(options);
+
+		const prompt = await this.getPrompt(options, warnings);
+		const { messages, imageInputs } = await this.getMessages(prompt, emulatedTools);
+
+		const inputs = {
+			messages,
+			max_tokens: args.max_tokens,
+			temperature: args.temperature,
+			tools: args.tools,
+			top_p: args.top_p,
+			top_k: args.top_k,
+			seed: args.seed,
+			repetition_penalty: args.repetition_penalty,
+			frequency_penalty: args.frequency_penalty,
+			presence_penalty: args.presence_penalty,
+			stop: args.stop,
+			lora: args.lora,
+			...imageInputs,
+			response_format: "response_format" in args ? args.response_format : undefined,
+		};
+
+		return { args, emulatedTools, warnings, prompt, messages, inputs };
+	}
+
+	/**
+	 * Maps the output of a call without streaming to the result of `doGenerate`.
+	 */
+	private mapOutput(
+		output: any,
+		{ args, emulatedTools, warnings, messages }: WorkersAIChatCallContext,
+		headers: Record<string, string> | undefined,
+	): Awaited<ReturnType<LanguageModelV1["doGenerate"]>> {
+		const metadata = getWorkersAIResponseMetadata(headers);
+
+		const { reasoning, text: responseText } =
+			typeof output.response === "string" && this.settings.extractReasoning !== false
+				? splitReasoning(output.response, this.capabilities.reasoning)
+				: { reasoning: undefined, text: output.response };
+
+		// Models that call tools through the prompt write the calls into their text.
+		const { text, toolCalls } =
+			emulatedTools && typeof responseText === "string"
+				? parseEmulatedToolCalls(responseText, emulatedTools.tools)
+				: { text: responseText, toolCalls: processToolCalls(output) };
+
 		return {
 			text:
-				typeof output.response === "object" && output.response !== null
-					? JSON.stringify(output.response) // ai-sdk expects a string here
-					: output.response,
-			toolCalls: processToolCalls(output),
-			finishReason: "stop", // TODO: mapWorkersAIFinishReason(response.finish_reason),
+				typeof text === "object" && text !== null
+					? JSON.stringify(text) // ai-sdk expects a string here
+					: text,
+			reasoning,
+			toolCalls,
+			finishReason:
+				toolCalls.length > 0
+					? "tool-calls"
+					: mapWorkersAIFinishReason(getWorkersAIFinishReason(output)),
 			rawCall: { rawPrompt: messages, rawSettings: args },
+			rawResponse: { headers, body: output },
+			response: { id: metadata.requestId, timestamp: new Date(), modelId: this.modelId },
 			usage: mapWorkersAIUsage(output),
+			providerMetadata: { workersai: { ...metadata } },
 			warnings,
 		};
 	}
 
-	async doStream(
-		options: Parameters<LanguageModelV1["doStream"]>[0],
-	): Promise<Awaited<ReturnType<LanguageModelV1["doStream"]>>> {
-		const { args, warnings } = this.getArgs(options);
+	async doGenerate(
+		options: Parameters<LanguageModelV1["doGenerate"]>[0],
+	): Promise<Awaited<ReturnType<LanguageModelV1["doGenerate"]>>> {
+		return this.generate(await this.getCall(options), options);
+	}
 
-		// Extract image from messages if present
-		const { messages, images } = convertToWorkersAIChatMessages(options.prompt);
+	/**
+	 * Runs a prepared call without streaming.
+	 */
+	private async generate(
+		call: Awaited<ReturnType<WorkersAIChatLanguageModel["getCall"]>>,
+		options: Parameters<LanguageModelV1["doGenerate"]>[0],
+	): Promise<Awaited<ReturnType<LanguageModelV1["doGenerate"]>>> {
+		const output = await this.config.binding.run(
+			call.args.model,
+			// @ts-expect-error image_url content parts and response_format not yet added to types
+			call.inputs,
+			this.getRunOptions(options),
+		);
 
-		// [1] When the latest message is not a tool response, we use the regular generate function
-		// and simulate it as a streamed response in order to satisfy the AI SDK's interface for
-		// doStream...
-		if (args.tools?.length && lastMessageWasUser(messages)) {
-			const response = await this.doGenerate(options);
+		if (output instanceof ReadableStream) {
+			throw new Error("This shouldn't happen");
+		}
 
-			if (response instanceof ReadableStream) {
-				throw new Error("This shouldn't happen");
-			}
+		return this.mapOutput(output, call, getResponseHeaders(this.config.binding, output));
+	}
+
+	/**
+	 * Queues the calls with the Workers AI batch API, for models that support batches. The
+	 * returned handle polls for one result or error per call, in the order of the calls and
+	 * in the shape of `doGenerate`.
+	 */
+	async doGenerateBatch(
+		calls: Array<Parameters<LanguageModelV1["doGenerate"]>[0]>,
+		{
+			abortSignal,
+			headers,
+		}: { abortSignal?: AbortSignal; headers?: Record<string, string> } = {},
+	): Promise<WorkersAIBatch<Awaited<ReturnType<LanguageModelV1["doGenerate"]>>>> {
+		const preparedCalls = await Promise.all(calls.map((call) => this.getCall(call)));
+
+		const requestId = await submitWorkersAIBatch({
+			binding: this.config.binding,
+			modelId: this.modelId,
+			requests: preparedCalls.map(({ inputs }) => inputs),
+			runOptions: this.getBatchRunOptions(),
+			abortSignal,
+			headers,
+		});
+
+		return this.createBatch(requestId, preparedCalls);
+	}
+
+	/**
+	 * Recreates the handle of a batch from its request id, e.g. in a later run of a job. Pass
+	 * the calls of the batch to map tool calls that are emulated through the prompt. They are
+	 * prepared as they are by `doGenerateBatch`, so the results match those of its handle.
+	 */
+	async resumeBatch(
+		requestId: string,
+		calls?: Array<Parameters<LanguageModelV1["doGenerate"]>[0]>,
+	): Promise<WorkersAIBatch<Awaited<ReturnType<LanguageModelV1["doGenerate"]>>>> {
+		return this.createBatch(
+			requestId,
+			calls && (await Promise.all(calls.map((call) => this.getCall(call)))),
+		);
+	}
+
+	private createBatch(requestId: string, calls: WorkersAIChatCallContext[] | undefined) {
+		return new WorkersAIBatch(requestId, this.modelId, {
+			binding: this.config.binding,
+			runOptions: this.getBatchRunOptions(),
+			mapResults: (responses) =>
+				responses.map((response) =>
+					"error" in response
+						? response
+						: {
+								index: response.index,
+								result: this.mapOutput(
+									response.result,
+									calls?.[response.index] ?? {
+										args: { model: this.modelId },
+										emulatedTools: undefined,
+										warnings: [],
+									},
+									undefined,
+								),
+							},
+				),
+		});
+	}
+
+	async doStream(
+		options: Parameters<LanguageModelV1["doStream"]>[0],
+	): Promise<Awaited<ReturnType<LanguageModelV1["doStream"]>>> {
+		const call = await this.getCall(options);
+		const { args, emulatedTools, warnings, messages, inputs } = call;
+
+		const { streaming, streamingToolCalls } = this.capabilities;
+
+		// [1] When the model cannot stream, or cannot stream tool calls and the latest message is
+		// not a tool response, we use the regular generate function and simulate it as a streamed
+		// response in order to satisfy the AI SDK's interface for doStream...
+		if (
+			!streaming ||
+			emulatedTools ||
+			(args.tools?.length && lastMessageWasUser(messages) && !streamingToolCalls)
+		) {
+			// The call is run as prepared, so that its prompt is not truncated or its images
+			// downloaded again.
+			const response = await this.generate(call, options);
 
 			return {
 				stream: new ReadableStream<LanguageModelV1StreamPart>({
 					async start(controller) {
+						controller.enqueue({ type: "response-metadata", ...response.response });
+						if (typeof response.reasoning === "string") {
+							controller.enqueue({
+								type: "reasoning",
+								textDelta: response.reasoning,
+							});
+						}
 						if (response.text) {
 							controller.enqueue({
 								type: "text-delta",
@@ -218,52 +607,44 @@ export class WorkersAIChatLanguageModel implements LanguageModelV1 {
 						}
 						controller.enqueue({
 							type: "finish",
-							finishReason: "stop",
+							finishReason: response.finishReason,
 							usage: response.usage,
+							providerMetadata: response.providerMetadata,
 						});
 						controller.close();
 					},
 				}),
 				rawCall: { rawPrompt: messages, rawSettings: args },
+				rawResponse: { headers: response.rawResponse?.headers },
 				warnings,
 			};
 		}
 
 		// [2] ...otherwise, we just proceed as normal and stream the response directly from the remote model.
-		const { gateway, ...passthroughOptions } = this.settings;
-
-		// TODO: support for multiple images
-		if (images.length !== 0 && images.length !== 1) {
-			throw new Error("Multiple images are not yet supported as input");
-		}
-
-		const imagePart = images[0];
-
 		const response = await this.config.binding.run(
 			args.model,
-			{
-				messages: messages,
-				max_tokens: args.max_tokens,
-				stream: true,
-				temperature: args.temperature,
-				tools: args.tools,
-				top_p: args.top_p,
-				// Convert Uint8Array to Array of integers for Llama 3.2 Vision model
-				// TODO: maybe use the base64 string version?
-				...(imagePart ? { image: Array.from(imagePart.image) } : {}),
-				// @ts-expect-error response_format not yet added to types
-				response_format: args.response_format,
-			},
-			{ gateway: this.config.gateway ?? gateway, ...passthroughOptions },
+			// @ts-expect-error image_url content parts and response_format not yet added to types
+			{ ...inputs, stream: true },
+			this.getRunOptions(options),
 		);
 
 		if (!(response instanceof ReadableStream)) {
 			throw new Error("This shouldn't happen");
 		}
 
+		const headers = getResponseHeaders(this.config.binding, response);
+
 		return {
-			stream: getMappedStream(new Response(response)),
+			stream: getMappedStream(new Response(response), {
+				extractReasoning: this.settings.extractReasoning !== false,
+				startsInReasoning: this.capabilities.reasoning,
+				response: {
+					modelId: this.modelId,
+					metadata: getWorkersAIResponseMetadata(headers),
+				},
+			}),
 			rawCall: { rawPrompt: messages, rawSettings: args },
+			rawResponse: { headers },
 			warnings,
 		};
 	}
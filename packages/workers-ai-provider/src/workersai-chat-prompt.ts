@@ -13,21 +13,28 @@ export interface WorkersAISystemMessage {
 
 export interface WorkersAIUserMessage {
 	role: "user";
-	content: string;
+	content: string | Array<WorkersAIUserContentPart>;
 }
 
+export type WorkersAIUserContentPart =
+	| { type: "text"; text: string }
+	| { type: "image_url"; image_url: { url: string } };
+
 export interface WorkersAIAssistantMessage {
 	role: "assistant";
 	content: string;
-	tool_calls?: Array<{
-		id: string;
-		type: "function";
-		function: { name: string; arguments: string };
-	}>;
+	tool_calls?: Array<WorkersAIToolCall>;
+}
+
+export interface WorkersAIToolCall {
+	id: string;
+	type: "function";
+	function: { name: string; arguments: string };
 }
 
 export interface WorkersAIToolMessage {
 	role: "tool";
+	tool_call_id: string;
 	name: string;
 	content: string;
 }
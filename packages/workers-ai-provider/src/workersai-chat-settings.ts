@@ -1,3 +1,4 @@
+import type { WorkersAIPromptTruncationSettings } from "./truncate-prompt";
 import type { StringLike } from "./utils";
 
 export type WorkersAIChatSettings = {
@@ -7,6 +8,43 @@ export type WorkersAIChatSettings = {
 	 */
 	safePrompt?: boolean;
 
+	/**
+	 * Name or id of a LoRA adapter to run the model with. The model must support LoRA adapters.
+	 */
+	lora?: string;
+
+	/**
+	 * Penalty for repeated tokens, applied on top of the frequency and presence penalties.
+	 * Not part of the standard call settings, so it is set per model.
+	 */
+	repetitionPenalty?: number;
+
+	/**
+	 * Whether to call tools through the prompt, for models without native function calling.
+	 * The tool definitions are put into the system prompt, and the calls are parsed from the
+	 * model's text output. Streams with tools are simulated. Defaults to `false`.
+	 */
+	emulateToolCalling?: boolean;
+
+	/**
+	 * Whether to fit prompts into the context window of the model before they are sent.
+	 * Oversized tool results are trimmed first, then the oldest turns are dropped or summarised.
+	 * Every cut is reported as a call warning. Defaults to `false`.
+	 */
+	truncatePrompt?: boolean | WorkersAIPromptTruncationSettings;
+
+	/**
+	 * Whether to split the `<think>...</think>` reasoning of thinking models from the answer,
+	 * into reasoning parts. Defaults to `true`.
+	 */
+	extractReasoning?: boolean;
+
+	/**
+	 * Maximum size in bytes of an image input. Image URLs are downloaded up to this size.
+	 * Defaults to 10 MB.
+	 */
+	maxImageSizeInBytes?: number;
+
 	/**
 	 * Optionally set Cloudflare AI Gateway options.
 	 * @deprecated
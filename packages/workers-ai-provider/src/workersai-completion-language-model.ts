@@ -0,0 +1,226 @@
+import {
+	type LanguageModelV1,
+	type LanguageModelV1CallWarning,
+	UnsupportedFunctionalityError,
+} from "@ai-sdk/provider";
+import {
+	convertToWorkersAICompletionMessages,
+	convertToWorkersAICompletionPrompt,
+} from "./convert-to-workersai-completion-prompt";
+import type { WorkersAICompletionSettings } from "./workersai-completion-settings";
+import {
+	checkModelSettings,
+	getWorkersAIModelCapabilities,
+	type WorkersAIModelCapabilities,
+} from "./workersai-model-capabilities";
+import type { TextGenerationModels } from "./workersai-models";
+
+import { getWorkersAIFinishReason, mapWorkersAIFinishReason } from "./map-workersai-finish-reason";
+import { mapWorkersAIUsage } from "./map-workersai-usage";
+import { getMappedStream } from "./streaming";
+import { getCallRunOptions } from "./utils";
+
+type WorkersAICompletionConfig = {
+	provider: string;
+	binding: Ai;
+	gateway?: GatewayOptions;
+};
+
+/**
+ * A text generation model that takes a plain `prompt` instead of chat messages, for base and
+ * fill-in-the-middle code models.
+ */
+export class WorkersAICompletionLanguageModel implements LanguageModelV1 {
+	readonly specificationVersion = "v1";
+	readonly defaultObjectGenerationMode = undefined;
+
+	readonly modelId: TextGenerationModels;
+	readonly settings: WorkersAICompletionSettings;
+
+	private readonly config: WorkersAICompletionConfig;
+
+	constructor(
+		modelId: TextGenerationModels,
+		settings: WorkersAICompletionSettings,
+		config: WorkersAICompletionConfig,
+	) {
+		this.modelId = modelId;
+		this.settings = settings;
+		this.config = config;
+	}
+
+	get provider(): string {
+		return this.config.provider;
+	}
+
+	/**
+	 * What this model supports, from the capability registry.
+	 */
+	get capabilities(): WorkersAIModelCapabilities {
+		return getWorkersAIModelCapabilities(this.modelId);
+	}
+
+	private getArgs({
+		mode,
+		inputFormat,
+		prompt,
+		maxTokens,
+		temperature,
+		topP,
+		topK,
+		frequencyPenalty,
+		presencePenalty,
+		stopSequences,
+		seed,
+	}: Parameters<LanguageModelV1["doGenerate"]>[0]) {
+		const type = mode.type;
+
+		const warnings: LanguageModelV1CallWarning[] = [];
+
+		const supported = checkModelSettings({
+			modelId: this.modelId,
+			capabilities: this.capabilities,
+			lora: this.settings.lora,
+			warnings,
+		});
+
+		const raw = this.settings.raw ?? true;
+
+		const completionPrompt = raw
+			? convertToWorkersAICompletionPrompt({
+					prompt,
+					inputFormat,
+					template: this.settings.template,
+				})
+			: undefined;
+
+		// Without `raw`, the messages are sent as they are, in the chat template of the model.
+		const messages = raw ? undefined : convertToWorkersAICompletionMessages(prompt);
+
+		// The stop sequences of the template are left out for models that do not accept any,
+		// so that only the stop sequences of the call cause a warning.
+		const templateStopSequences = this.capabilities.unsupportedSettings.includes(
+			"stopSequences",
+		)
+			? []
+			: (completionPrompt?.stopSequences ?? []);
+
+		const stop = [...templateStopSequences, ...(stopSequences ?? [])];
+
+		const args = {
+			// model id:
+			model: this.modelId,
+
+			// model specific settings:
+			raw: raw ? true : undefined,
+			lora: this.settings.lora,
+			repetition_penalty: supported("repetitionPenalty", this.settings.repetitionPenalty),
+
+			// standardized settings:
+			max_tokens: maxTokens,
+			temperature,
+			top_p: supported("topP", topP),
+			top_k: supported("topK", topK),
+			seed: supported("seed", seed),
+			frequency_penalty: supported("frequencyPenalty", frequencyPenalty),
+			presence_penalty: supported("presencePenalty", presencePenalty),
+			stop: supported("stopSequences", stop.length ? stop : undefined),
+
+			// prompt:
+			prompt: completionPrompt?.prompt,
+			messages,
+		};
+
+		switch (type) {
+			case "regular": {
+				if (mode.tools?.length) {
+					throw new UnsupportedFunctionalityError({
+						functionality: "tools",
+					});
+				}
+
+				return { args, warnings };
+			}
+
+			case "object-json": {
+				throw new UnsupportedFunctionalityError({
+					functionality: "object-json mode",
+				});
+			}
+
+			case "object-tool": {
+				throw new UnsupportedFunctionalityError({
+					functionality: "object-tool mode",
+				});
+			}
+
+			default: {
+				const exhaustiveCheck = type satisfies never;
+				throw new Error(`Unsupported type: ${exhaustiveCheck}`);
+			}
+		}
+	}
+
+	/**
+	 * Options for the run call: the gateway, passthrough settings, and the abort signal and
+	 * headers of this call.
+	 */
+	private getRunOptions(options: Parameters<LanguageModelV1["doGenerate"]>[0]) {
+		const { gateway, raw, template, lora, repetitionPenalty, ...passthroughOptions } =
+			this.settings;
+
+		return {
+			gateway: this.config.gateway ?? gateway,
+			...passthroughOptions,
+			...getCallRunOptions(options),
+		};
+	}
+
+	async doGenerate(
+		options: Parameters<LanguageModelV1["doGenerate"]>[0],
+	): Promise<Awaited<ReturnType<LanguageModelV1["doGenerate"]>>> {
+		const { args, warnings } = this.getArgs(options);
+		const { model, ...inputs } = args;
+
+		const output = (await this.config.binding.run(
+			model,
+			inputs,
+			this.getRunOptions(options),
+		)) as AiTextGenerationOutput;
+
+		if (output instanceof ReadableStream) {
+			throw new Error("This shouldn't happen");
+		}
+
+		return {
+			text: output.response,
+			finishReason: mapWorkersAIFinishReason(getWorkersAIFinishReason(output)),
+			rawCall: { rawPrompt: args.prompt ?? args.messages, rawSettings: args },
+			usage: mapWorkersAIUsage(output),
+			warnings,
+		};
+	}
+
+	async doStream(
+		options: Parameters<LanguageModelV1["doStream"]>[0],
+	): Promise<Awaited<ReturnType<LanguageModelV1["doStream"]>>> {
+		const { args, warnings } = this.getArgs(options);
+		const { model, ...inputs } = args;
+
+		const response = await this.config.binding.run(
+			model,
+			{ ...inputs, stream: true },
+			this.getRunOptions(options),
+		);
+
+		if (!(response instanceof ReadableStream)) {
+			throw new Error("This shouldn't happen");
+		}
+
+		return {
+			stream: getMappedStream(new Response(response)),
+			rawCall: { rawPrompt: args.prompt ?? args.messages, rawSettings: args },
+			warnings,
+		};
+	}
+}
@@ -0,0 +1,37 @@
+import type { WorkersAICompletionTemplate } from "./convert-to-workersai-completion-prompt";
+import type { StringLike } from "./utils";
+
+export type WorkersAICompletionSettings = {
+	/**
+	 * Whether to send the prompt as is. When `false`, the messages are sent instead, and
+	 * Workers AI writes them in the chat template of the model. Defaults to `true`.
+	 */
+	raw?: boolean;
+
+	/**
+	 * Flattens prompts with several messages into the raw prompt text. Defaults to turns
+	 * labelled with `user:` and `assistant:`. Plain text prompts are always sent unchanged.
+	 */
+	template?: WorkersAICompletionTemplate;
+
+	/**
+	 * Name or id of a LoRA adapter to run the model with.
+	 */
+	lora?: string;
+
+	/**
+	 * Penalty for repeated tokens, applied on top of the frequency and presence penalties.
+	 */
+	repetitionPenalty?: number;
+
+	/**
+	 * Optionally set Cloudflare AI Gateway options.
+	 * @deprecated
+	 */
+	gateway?: GatewayOptions;
+} & {
+	/**
+	 * Passthrough settings that are provided directly to the run function.
+	 */
+	[key: string]: StringLike;
+};
@@ -1,15 +1,80 @@
-import { createJsonErrorResponseHandler } from "@ai-sdk/provider-utils";
+import { APICallError } from "@ai-sdk/provider";
+import {
+	extractResponseHeaders,
+	type ResponseHandler,
+	safeParseJSON,
+} from "@ai-sdk/provider-utils";
 import { z } from "zod";
+import { getWorkersAIRequestId } from "./workersai-response-metadata";
 
-const workersAIErrorDataSchema = z.object({
-	object: z.literal("error"),
-	message: z.string(),
-	type: z.string(),
-	param: z.string().nullable(),
-	code: z.string().nullable(),
-});
-
-export const workersAIFailedResponseHandler = createJsonErrorResponseHandler({
-	errorSchema: workersAIErrorDataSchema,
-	errorToMessage: (data) => data.message,
-});
+const workersAIErrorDataSchema = z.union([
+	// Cloudflare API envelope, e.g. `{ success: false, errors: [{ code: 10000, message: "..." }] }`
+	z.object({
+		success: z.literal(false).optional(),
+		errors: z
+			.array(
+				z.object({
+					code: z.number().nullish(),
+					message: z.string(),
+				}),
+			)
+			.min(1),
+	}),
+	// OpenAI-compatible error
+	z.object({
+		object: z.literal("error"),
+		message: z.string(),
+		type: z.string(),
+		param: z.string().nullable(),
+		code: z.string().nullable(),
+	}),
+	// OpenAI API error, as returned by OpenAI-compatible servers
+	z.object({
+		error: z.object({
+			message: z.string(),
+		}),
+	}),
+]);
+
+export type WorkersAIErrorData = z.infer<typeof workersAIErrorDataSchema>;
+
+/**
+ * Converts a non-2xx Cloudflare API response into an `APICallError`. Rate limits and server
+ * errors are retryable, so that `maxRetries` in the AI SDK applies to them.
+ */
+export const workersAIFailedResponseHandler: ResponseHandler<APICallError> = async ({
+	response,
+	url,
+	requestBodyValues,
+}) => {
+	const responseBody = await response.text();
+	const responseHeaders = extractResponseHeaders(response);
+	const requestId = getWorkersAIRequestId(responseHeaders);
+
+	const parsedError = safeParseJSON({
+		text: responseBody,
+		schema: workersAIErrorDataSchema,
+	});
+
+	const message = parsedError.success
+		? "errors" in parsedError.value
+			? parsedError.value.errors.map((error) => error.message).join("; ")
+			: "error" in parsedError.value
+				? parsedError.value.error.message
+				: parsedError.value.message
+		: response.statusText || `Request failed with status ${response.status}`;
+
+	return {
+		responseHeaders,
+		value: new APICallError({
+			message: requestId ? `${message} (request id: ${requestId})` : message,
+			url,
+			requestBodyValues,
+			statusCode: response.status,
+			responseHeaders,
+			responseBody,
+			isRetryable: response.status === 429 || response.status >= 500,
+			data: parsedError.success ? { ...parsedError.value, requestId } : { requestId },
+		}),
+	};
+};
@@ -2,4 +2,8 @@ export type WorkersAIImageConfig = {
 	provider: string;
 	binding: Ai;
 	gateway?: GatewayOptions;
+	/**
+	 * Custom fetch implementation used to download input images.
+	 */
+	fetch?: typeof fetch;
 };
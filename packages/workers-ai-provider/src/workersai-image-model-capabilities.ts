@@ -0,0 +1,106 @@
+import type { ImageGenerationModels } from "./workersai-models";
+
+/**
+ * An input of the Workers AI image models besides the prompt. FLUX takes its step count as
+ * `steps`, the Stable Diffusion models as `num_steps`.
+ */
+export type WorkersAIImageInput = Exclude<keyof AiTextToImageInput, "prompt"> | "steps";
+
+/**
+ * The widths and heights in pixels that a model accepts.
+ */
+export type WorkersAIImageSizeLimits = {
+	min: number;
+	max: number;
+
+	/**
+	 * Widths and heights must be multiples of this.
+	 */
+	multipleOf: number;
+
+	/**
+	 * Side of the square images that the model generates by default. Images with another
+	 * aspect ratio keep about the same number of pixels.
+	 */
+	default: number;
+};
+
+export type WorkersAIImageModelCapabilities = {
+	/**
+	 * Inputs that the model accepts besides the prompt. Other inputs are not sent.
+	 */
+	inputs: ReadonlyArray<WorkersAIImageInput>;
+
+	/**
+	 * Sizes that the model accepts, if it takes a `width` and `height`.
+	 */
+	size?: WorkersAIImageSizeLimits;
+
+	/**
+	 * Images that are generated in one call. The model returns one image per request, so
+	 * this bounds the requests of a call, in line with the rate limits of the model.
+	 */
+	maxImagesPerCall: number;
+};
+
+const stableDiffusionInputs: ReadonlyArray<WorkersAIImageInput> = [
+	"negative_prompt",
+	"height",
+	"width",
+	"image",
+	"mask",
+	"num_steps",
+	"strength",
+	"guidance",
+	"seed",
+];
+
+/**
+ * Capabilities of image models that are not in the registry. Unknown models are sent every
+ * input and any size, so that the API decides.
+ */
+const unknownImageModelCapabilities: WorkersAIImageModelCapabilities = {
+	inputs: [...stableDiffusionInputs, "steps"],
+	size: { min: 1, max: Number.POSITIVE_INFINITY, multipleOf: 1, default: 1024 },
+	maxImagesPerCall: 1,
+};
+
+/**
+ * Creates the capabilities of a Stable Diffusion model, which takes sizes from 256 to 2048
+ * pixels in multiples of 8.
+ */
+function stableDiffusionModel(
+	defaultSize: number,
+	maxImagesPerCall: number,
+): WorkersAIImageModelCapabilities {
+	return {
+		inputs: stableDiffusionInputs,
+		size: { min: 256, max: 2048, multipleOf: 8, default: defaultSize },
+		maxImagesPerCall,
+	};
+}
+
+/**
+ * Capabilities of the Workers AI image generation models.
+ *
+ * @see https://developers.cloudflare.com/workers-ai/models/
+ */
+const imageModelCapabilities: Partial<
+	Record<ImageGenerationModels | (string & {}), WorkersAIImageModelCapabilities>
+> = {
+	"@cf/black-forest-labs/flux-1-schnell": { inputs: ["steps"], maxImagesPerCall: 4 },
+	"@cf/stabilityai/stable-diffusion-xl-base-1.0": stableDiffusionModel(1024, 2),
+	"@cf/bytedance/stable-diffusion-xl-lightning": stableDiffusionModel(1024, 4),
+	"@cf/lykon/dreamshaper-8-lcm": stableDiffusionModel(512, 4),
+	"@cf/runwayml/stable-diffusion-v1-5-img2img": stableDiffusionModel(512, 2),
+	"@cf/runwayml/stable-diffusion-v1-5-inpainting": stableDiffusionModel(512, 2),
+};
+
+/**
+ * Returns what a Workers AI image model supports.
+ */
+export function getWorkersAIImageModelCapabilities(
+	modelId: string,
+): WorkersAIImageModelCapabilities {
+	return imageModelCapabilities[modelId] ?? unknownImageModelCapabilities;
+}
@@ -0,0 +1,56 @@
+import type { ImageModelV2 } from "@ai-sdk/provider-v2";
+import type { WorkersAIImageConfig } from "./workersai-image-config";
+import { WorkersAIImageModel } from "./workersai-image-model";
+import type { WorkersAIImageModelCapabilities } from "./workersai-image-model-capabilities";
+import type { WorkersAIImageSettings } from "./workersai-image-settings";
+import type { ImageGenerationModels } from "./workersai-models";
+import { getWorkersAIResponseMetadata } from "./workersai-response-metadata";
+
+/**
+ * The image model for AI SDK 5. It generates the images with {@link WorkersAIImageModel},
+ * which takes the same `providerOptions.workersai`.
+ */
+export class WorkersAIImageModelV2 implements ImageModelV2 {
+	readonly specificationVersion = "v2";
+
+	private readonly model: WorkersAIImageModel;
+
+	constructor(
+		readonly modelId: ImageGenerationModels,
+		readonly settings: WorkersAIImageSettings,
+		config: WorkersAIImageConfig,
+	) {
+		this.model = new WorkersAIImageModel(modelId, settings, config);
+	}
+
+	get provider(): string {
+		return this.model.provider;
+	}
+
+	get maxImagesPerCall(): number {
+		return this.model.maxImagesPerCall;
+	}
+
+	/**
+	 * What this model supports, from the image model registry.
+	 */
+	get capabilities(): WorkersAIImageModelCapabilities {
+		return this.model.capabilities;
+	}
+
+	async doGenerate(
+		options: Parameters<ImageModelV2["doGenerate"]>[0],
+	): Promise<Awaited<ReturnType<ImageModelV2["doGenerate"]>>> {
+		const { images, warnings, response } = await this.model.doGenerate(options);
+
+		return {
+			images,
+			warnings,
+			// The metadata is that of the first request of the call, and none is kept per image.
+			providerMetadata: {
+				workersai: { images: [], ...getWorkersAIResponseMetadata(response.headers) },
+			},
+			response,
+		};
+	}
+}
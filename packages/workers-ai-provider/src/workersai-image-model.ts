@@ -1,93 +1,301 @@
-import type { ImageModelV1, ImageModelV1CallWarning } from "@ai-sdk/provider";
+import {
+	type ImageModelV1,
+	type ImageModelV1CallWarning,
+	InvalidArgumentError,
+} from "@ai-sdk/provider";
+import { convertBase64ToUint8Array, parseProviderOptions } from "@ai-sdk/provider-utils";
+import { z } from "zod";
+import { loadImagePart } from "./load-image-part";
+import { getCallRunOptions, runConcurrently } from "./utils";
 import type { WorkersAIImageConfig } from "./workersai-image-config";
-import type { WorkersAIImageSettings } from "./workersai-image-settings";
+import {
+	getWorkersAIImageModelCapabilities,
+	type WorkersAIImageInput,
+	type WorkersAIImageModelCapabilities,
+	type WorkersAIImageSizeLimits,
+} from "./workersai-image-model-capabilities";
+import type {
+	WorkersAIImageProviderOptions,
+	WorkersAIImageSettings,
+} from "./workersai-image-settings";
 import type { ImageGenerationModels } from "./workersai-models";
+import { getResponseHeaders } from "./workersai-response-metadata";
+
+/**
+ * Stable Diffusion models return the image as a byte stream, FLUX returns it as base64 JSON.
+ */
+type WorkersAIImageOutput = ReadableStream<Uint8Array> | Uint8Array | { image?: string };
+
+const DEFAULT_MAX_CONCURRENCY = 2;
+
+const imageInputSchema = z.union([z.string(), z.array(z.number())]);
+
+/**
+ * Validates `providerOptions.workersai`, so that invalid values are not sent to the model.
+ */
+const workersAIImageProviderOptionsSchema: z.ZodType<WorkersAIImageProviderOptions> = z.object({
+	negativePrompt: z.string().optional(),
+	numSteps: z.number().int().positive().optional(),
+	guidance: z.number().optional(),
+	strength: z.number().min(0).max(1).optional(),
+	image: imageInputSchema.optional(),
+	mask: imageInputSchema.optional(),
+});
 
 export class WorkersAIImageModel implements ImageModelV1 {
 	readonly specificationVersion = "v1";
 
 	get maxImagesPerCall(): number {
-		return this.settings.maxImagesPerCall ?? 1;
+		return this.settings.maxImagesPerCall ?? this.capabilities.maxImagesPerCall;
 	}
 
 	get provider(): string {
 		return this.config.provider;
 	}
+
+	/**
+	 * What this model supports, from the image model registry.
+	 */
+	get capabilities(): WorkersAIImageModelCapabilities {
+		return getWorkersAIImageModelCapabilities(this.modelId);
+	}
+
 	constructor(
 		readonly modelId: ImageGenerationModels,
 		readonly settings: WorkersAIImageSettings,
 		readonly config: WorkersAIImageConfig,
 	) {}
 
-	async doGenerate({
-		prompt,
-		n,
-		size,
-		aspectRatio,
-		seed,
-		// headers,
-		// abortSignal,
-	}: Parameters<ImageModelV1["doGenerate"]>[0]): Promise<
-		Awaited<ReturnType<ImageModelV1["doGenerate"]>>
-	> {
-		const { width, height } = getDimensionsFromSizeString(size);
+	/**
+	 * Builds the inputs of the model. Only the inputs that the model accepts are sent; the
+	 * others are dropped with a warning.
+	 */
+	private async getInputs(
+		{
+			prompt,
+			size,
+			aspectRatio,
+			seed,
+			providerOptions,
+		}: Parameters<ImageModelV1["doGenerate"]>[0],
+		warnings: ImageModelV1CallWarning[],
+	) {
+		const { inputs: acceptedInputs } = this.capabilities;
+		const { negativePrompt, numSteps, guidance, strength, image, mask } =
+			parseProviderOptions({
+				provider: "workersai",
+				providerOptions,
+				schema: workersAIImageProviderOptionsSchema,
+			}) ?? {};
 
-		const warnings: Array<ImageModelV1CallWarning> = [];
+		const inputs: Partial<Record<WorkersAIImageInput, unknown>> & { prompt: string } = {
+			prompt,
+		};
 
-		if (aspectRatio != null) {
+		const unsupportedSetting = (setting: "seed" | "size" | "aspectRatio") => {
+			warnings.push({
+				type: "unsupported-setting",
+				setting,
+				details: `${this.modelId} does not support ${setting}.`,
+			});
+		};
+
+		if (seed != null) {
+			if (acceptedInputs.includes("seed")) {
+				inputs.seed = seed;
+			} else {
+				unsupportedSetting("seed");
+			}
+		}
+
+		const sizeLimits = this.capabilities.size;
+
+		if (size != null && aspectRatio != null) {
 			warnings.push({
 				type: "unsupported-setting",
 				setting: "aspectRatio",
-				details: "This model does not support aspect ratio. Use `size` instead.",
+				details: "The aspect ratio is ignored when a size is set.",
 			});
 		}
 
+		if (size != null || aspectRatio != null) {
+			if (sizeLimits) {
+				Object.assign(
+					inputs,
+					size != null
+						? parseSize(this.modelId, size, sizeLimits)
+						: getSizeFromAspectRatio(aspectRatio!, sizeLimits),
+				);
+			} else {
+				unsupportedSetting(size != null ? "size" : "aspectRatio");
+			}
+		}
+
+		const stepsInput = acceptedInputs.includes("steps") ? "steps" : "num_steps";
+
+		for (const [input, option, value] of [
+			["negative_prompt", "negativePrompt", negativePrompt],
+			[stepsInput, "numSteps", numSteps],
+			["guidance", "guidance", guidance],
+			["strength", "strength", strength],
+			["image", "image", image],
+			["mask", "mask", mask],
+		] as const) {
+			if (value == null) {
+				continue;
+			}
+			if (!acceptedInputs.includes(input)) {
+				warnings.push({
+					type: "other",
+					message: `${this.modelId} does not support the ${option} option.`,
+				});
+				continue;
+			}
+			// The models take input images and masks as arrays of bytes.
+			inputs[input] =
+				input === "image" || input === "mask"
+					? Array.from(
+							await loadImageInput(value as string | number[], this.config.fetch),
+						)
+					: value;
+		}
+
+		return inputs;
+	}
+
+	async doGenerate(
+		options: Parameters<ImageModelV1["doGenerate"]>[0],
+	): Promise<Awaited<ReturnType<ImageModelV1["doGenerate"]>>> {
+		const { n, headers, abortSignal } = options;
+
+		const warnings: Array<ImageModelV1CallWarning> = [];
+
+		const inputs = await this.getInputs(options, warnings);
+
 		const generateImage = async () => {
-			const outputStream: ReadableStream<Uint8Array> = await this.config.binding.run(
+			const output = (await this.config.binding.run(
 				this.modelId,
+				// @ts-expect-error the inputs differ between the image models
+				inputs,
 				{
-					prompt,
-					seed,
-					width,
-					height,
+					gateway: this.config.gateway,
+					...getCallRunOptions({ abortSignal, headers }),
 				},
-			);
+			)) as WorkersAIImageOutput;
 
-			// Convert the output stream to a Uint8Array.
-			return streamToUint8Array(outputStream);
+			return {
+				image: await getImageBytes(this.modelId, output),
+				headers: getResponseHeaders(this.config.binding, output),
+			};
 		};
 
-		const images: Uint8Array[] = await Promise.all(
-			Array.from({ length: n }, () => generateImage()),
+		const results = await runConcurrently(
+			n,
+			this.settings.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY,
+			generateImage,
 		);
 
-		// type AiTextToImageOutput = ReadableStream<Uint8Array>;
-
+		// The image interface has no provider metadata, so the ids are in the headers, which
+		// are those of the first request of the call.
 		return {
-			images,
+			images: results.map(({ image }) => image),
 			warnings,
 			response: {
 				timestamp: new Date(),
 				modelId: this.modelId,
-				headers: {},
+				headers: results[0]?.headers ?? {},
 			},
 		};
 	}
 }
 
-function getDimensionsFromSizeString(size: string | undefined) {
-	const [width, height] = size?.split("x") ?? [undefined, undefined];
+async function loadImageInput(
+	image: string | number[],
+	fetchImpl: typeof fetch | undefined,
+): Promise<Uint8Array> {
+	const { image: data } = await loadImagePart(
+		typeof image === "string" ? image : new Uint8Array(image),
+		undefined,
+		{ fetch: fetchImpl },
+	);
+	return data;
+}
 
-	return {
-		width: parseInteger(width),
-		height: parseInteger(height),
-	};
+async function getImageBytes(modelId: string, output: WorkersAIImageOutput): Promise<Uint8Array> {
+	if (output instanceof ReadableStream) {
+		return streamToUint8Array(output);
+	}
+	if (output instanceof Uint8Array) {
+		return output;
+	}
+	if (typeof output?.image === "string") {
+		return convertBase64ToUint8Array(output.image);
+	}
+	throw new Error(`${modelId} did not return an image.`);
 }
 
-function parseInteger(value?: string) {
-	if (value === "" || !value) return undefined;
-	const number = Number(value);
-	return Number.isInteger(number) ? number : undefined;
+/**
+ * Parses a `{width}x{height}` size, which must be within the size limits of the model.
+ */
+function parseSize(modelId: string, size: string, limits: WorkersAIImageSizeLimits) {
+	const match = /^(\d+)x(\d+)$/.exec(size);
+
+	if (!match) {
+		throw new InvalidArgumentError({
+			argument: "size",
+			message: `Invalid size '${size}'. Sizes must have the format {width}x{height}.`,
+		});
+	}
+
+	const width = Number(match[1]);
+	const height = Number(match[2]);
+
+	for (const value of [width, height]) {
+		if (value < limits.min || value > limits.max || value % limits.multipleOf !== 0) {
+			throw new InvalidArgumentError({
+				argument: "size",
+				message: `${modelId} does not support the size ${size}. Widths and heights must be multiples of ${limits.multipleOf} from ${limits.min} to ${limits.max}.`,
+			});
+		}
+	}
+
+	return { width, height };
+}
+
+/**
+ * Converts a `{width}:{height}` aspect ratio to a size with about as many pixels as the
+ * default size of the model. The size is scaled to fit the limits of the model and rounded
+ * to the required multiples; extreme aspect ratios are clamped.
+ */
+function getSizeFromAspectRatio(aspectRatio: string, limits: WorkersAIImageSizeLimits) {
+	const match = /^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/.exec(aspectRatio);
+	const ratio = match ? Number(match[1]) / Number(match[2]) : Number.NaN;
+
+	if (!(ratio > 0 && Number.isFinite(ratio))) {
+		throw new InvalidArgumentError({
+			argument: "aspectRatio",
+			message: `Invalid aspect ratio '${aspectRatio}'. Aspect ratios must have the format {width}:{height}.`,
+		});
+	}
+
+	let width = limits.default * Math.sqrt(ratio);
+	let height = limits.default / Math.sqrt(ratio);
+
+	// Scale down until the longer side fits, then up until the shorter side does.
+	const downscale = Math.min(1, limits.max / Math.max(width, height));
+	width *= downscale;
+	height *= downscale;
+
+	const upscale = Math.max(1, limits.min / Math.min(width, height));
+	width *= upscale;
+	height *= upscale;
+
+	const min = Math.ceil(limits.min / limits.multipleOf) * limits.multipleOf;
+	const max = Math.floor(limits.max / limits.multipleOf) * limits.multipleOf;
+	const round = (value: number) =>
+		Math.min(max, Math.max(min, Math.round(value / limits.multipleOf) * limits.multipleOf));
+
+	return { width: round(width), height: round(height) };
 }
 
 async function streamToUint8Array(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
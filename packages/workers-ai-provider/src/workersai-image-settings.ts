@@ -1,3 +1,48 @@
 export type WorkersAIImageSettings = {
+	/**
+	 * Maximum number of images generated in one call. Defaults to the limit of the model.
+	 */
 	maxImagesPerCall?: number;
+
+	/**
+	 * Maximum number of images generated at the same time. Defaults to 2.
+	 */
+	maxConcurrency?: number;
+};
+
+/**
+ * Options of a single generation, passed as `providerOptions.workersai`. Options that the
+ * model does not accept are dropped with a warning.
+ */
+export type WorkersAIImageProviderOptions = {
+	/**
+	 * Text describing what should not be in the image.
+	 */
+	negativePrompt?: string;
+
+	/**
+	 * Number of diffusion steps. Sent as `steps` to FLUX and as `num_steps` to other models.
+	 */
+	numSteps?: number;
+
+	/**
+	 * How closely the image follows the prompt.
+	 */
+	guidance?: number;
+
+	/**
+	 * How much the input image is transformed, from 0 to 1.
+	 */
+	strength?: number;
+
+	/**
+	 * Input image for image-to-image generation and inpainting, as a base64 string, a data or
+	 * `http(s):` URL, or bytes.
+	 */
+	image?: string | number[];
+
+	/**
+	 * Mask for inpainting, in the same formats as `image`. White areas are repainted.
+	 */
+	mask?: string | number[];
 };
@@ -0,0 +1,276 @@
+import { type LanguageModelV1CallWarning, UnsupportedFunctionalityError } from "@ai-sdk/provider";
+import type { TextGenerationModels } from "./workersai-models";
+
+/**
+ * A standard call setting, or a Workers AI setting, that a model may not accept.
+ */
+export type WorkersAISamplingSetting =
+	| Extract<LanguageModelV1CallWarning, { type: "unsupported-setting" }>["setting"]
+	| "repetitionPenalty";
+
+/**
+ * How tool calls and their results are sent back to a model:
+ * - `openai`: as `tool_calls` and `tool_call_id`s only.
+ * - `mistral`: like `openai`, with the 9 character alphanumeric ids that Mistral requires.
+ * - `llama`: also as `{"name", "parameters"}` JSON in the assistant content, as Llama 3 writes them.
+ * - `hermes`: also as `<tool_call>` blocks in the assistant content, as Hermes writes them.
+ */
+export type WorkersAIToolCallFormat = "openai" | "mistral" | "llama" | "hermes";
+
+export type WorkersAIModelCapabilities = {
+	/**
+	 * Whether the model accepts `tools` and returns tool calls.
+	 */
+	functionCalling: boolean;
+
+	/**
+	 * How earlier tool calls and results are sent back to the model.
+	 */
+	toolCallFormat: WorkersAIToolCallFormat;
+
+	/**
+	 * Whether the model returns tool calls when streaming. If not, tool calls on a user turn
+	 * are generated without streaming and replayed as a stream.
+	 */
+	streamingToolCalls: boolean;
+
+	/**
+	 * How the model takes images: not at all, a single image through the top-level `image`
+	 * input, or any number of `image_url` parts inside the messages.
+	 */
+	vision: "none" | "single-image" | "multi-image";
+
+	/**
+	 * Whether the model accepts a JSON schema as its `response_format`.
+	 */
+	jsonSchema: boolean;
+
+	/**
+	 * Whether the model can stream its response. If not, streams are simulated.
+	 */
+	streaming: boolean;
+
+	/**
+	 * Whether the model thinks before it answers. Its response starts inside a `<think>` block,
+	 * whose opening tag it may omit.
+	 */
+	reasoning: boolean;
+
+	/**
+	 * Whether the model can run with a LoRA adapter.
+	 */
+	lora: boolean;
+
+	/**
+	 * Maximum number of prompt and completion tokens, if known.
+	 */
+	contextWindow?: number;
+
+	/**
+	 * Sampling settings that the model's input schema does not accept.
+	 */
+	unsupportedSettings: ReadonlyArray<WorkersAISamplingSetting>;
+};
+
+/**
+ * Capabilities of models that are not in the registry. Unknown models are assumed to accept
+ * everything, so that the API decides.
+ */
+const unknownModelCapabilities: WorkersAIModelCapabilities = {
+	functionCalling: true,
+	toolCallFormat: "openai",
+	streamingToolCalls: true,
+	vision: "multi-image",
+	jsonSchema: true,
+	streaming: true,
+	reasoning: false,
+	lora: true,
+	unsupportedSettings: [],
+};
+
+/**
+ * Creates the capabilities of a known text generation model. Known models only get the
+ * features that are listed for them.
+ */
+function textModel(
+	contextWindow: number,
+	capabilities: Partial<WorkersAIModelCapabilities> = {},
+): WorkersAIModelCapabilities {
+	return {
+		functionCalling: false,
+		toolCallFormat: "openai",
+		streamingToolCalls: true,
+		vision: "none",
+		jsonSchema: false,
+		streaming: true,
+		reasoning: false,
+		lora: false,
+		unsupportedSettings: [],
+		contextWindow,
+		...capabilities,
+	};
+}
+
+/**
+ * Creates the capabilities of an older text generation model, such as Llama 2, Qwen 1.5 or
+ * the `@hf` models, whose input schema has no `top_k`, penalties other than
+ * `repetition_penalty`, or `stop`.
+ */
+function legacyTextModel(
+	contextWindow: number,
+	capabilities: Partial<WorkersAIModelCapabilities> = {},
+): WorkersAIModelCapabilities {
+	return textModel(contextWindow, {
+		unsupportedSettings: ["topK", "frequencyPenalty", "presencePenalty", "stopSequences"],
+		...capabilities,
+	});
+}
+
+const functionCallingAndJsonSchema = { functionCalling: true, jsonSchema: true };
+
+const llamaFunctionCalling = { ...functionCallingAndJsonSchema, toolCallFormat: "llama" } as const;
+
+/**
+ * Capabilities of the Workers AI text generation models.
+ *
+ * @see https://developers.cloudflare.com/workers-ai/models/
+ */
+const modelCapabilities: Partial<
+	Record<TextGenerationModels | (string & {}), WorkersAIModelCapabilities>
+> = {
+	"@cf/meta/llama-4-scout-17b-16e-instruct": textModel(131000, {
+		...functionCallingAndJsonSchema,
+		vision: "multi-image",
+	}),
+	"@cf/meta/llama-3.3-70b-instruct-fp8-fast": textModel(24000, llamaFunctionCalling),
+	"@cf/meta/llama-3.2-11b-vision-instruct": textModel(128000, {
+		jsonSchema: true,
+		vision: "single-image",
+		lora: true,
+	}),
+	"@cf/meta/llama-3.2-3b-instruct": textModel(128000, llamaFunctionCalling),
+	"@cf/meta/llama-3.2-1b-instruct": textModel(60000, llamaFunctionCalling),
+	"@cf/meta/llama-3.1-8b-instruct": textModel(7968, llamaFunctionCalling),
+	"@cf/meta/llama-3.1-8b-instruct-fp8": textModel(32000, llamaFunctionCalling),
+	"@cf/meta/llama-3.1-8b-instruct-awq": textModel(8192, llamaFunctionCalling),
+	"@cf/meta/llama-3-8b-instruct": textModel(7968, { jsonSchema: true }),
+	"@cf/meta/llama-3-8b-instruct-awq": textModel(8192),
+	"@hf/meta-llama/meta-llama-3-8b-instruct": textModel(8192),
+	"@cf/meta/llama-guard-3-8b": textModel(131072, {
+		jsonSchema: true,
+		streaming: false,
+		unsupportedSettings: [
+			"topP",
+			"topK",
+			"seed",
+			"frequencyPenalty",
+			"presencePenalty",
+			"repetitionPenalty",
+			"stopSequences",
+		],
+	}),
+	"@hf/nousresearch/hermes-2-pro-mistral-7b": textModel(24000, {
+		...functionCallingAndJsonSchema,
+		toolCallFormat: "hermes",
+		streamingToolCalls: false,
+	}),
+	"@cf/mistralai/mistral-small-3.1-24b-instruct": textModel(128000, {
+		...functionCallingAndJsonSchema,
+		toolCallFormat: "mistral",
+		vision: "multi-image",
+	}),
+	"@cf/deepseek-ai/deepseek-r1-distill-qwen-32b": textModel(80000, {
+		jsonSchema: true,
+		reasoning: true,
+	}),
+	"@hf/thebloke/deepseek-coder-6.7b-instruct-awq": legacyTextModel(4096, { jsonSchema: true }),
+	"@hf/thebloke/deepseek-coder-6.7b-base-awq": legacyTextModel(4096),
+	"@cf/deepseek-ai/deepseek-math-7b-instruct": legacyTextModel(4096),
+	"@cf/meta/llama-2-7b-chat-int8": legacyTextModel(8192),
+	"@cf/meta/llama-2-7b-chat-fp16": legacyTextModel(4096),
+	"@hf/thebloke/llama-2-13b-chat-awq": legacyTextModel(4096),
+	"@cf/meta-llama/llama-2-7b-chat-hf-lora": legacyTextModel(8192, { lora: true }),
+	"@hf/thebloke/llamaguard-7b-awq": legacyTextModel(4096),
+	"@cf/mistral/mistral-7b-instruct-v0.1": legacyTextModel(2824),
+	"@hf/thebloke/mistral-7b-instruct-v0.1-awq": legacyTextModel(4096),
+	"@hf/mistral/mistral-7b-instruct-v0.2": legacyTextModel(3072),
+	"@cf/mistral/mistral-7b-instruct-v0.2-lora": legacyTextModel(15000, { lora: true }),
+	"@hf/google/gemma-7b-it": legacyTextModel(8192),
+	"@cf/google/gemma-2b-it-lora": legacyTextModel(8192, { lora: true }),
+	"@cf/google/gemma-7b-it-lora": legacyTextModel(3500, { lora: true }),
+	"@cf/qwen/qwen1.5-0.5b-chat": legacyTextModel(32000),
+	"@cf/qwen/qwen1.5-1.8b-chat": legacyTextModel(32000),
+	"@cf/qwen/qwen1.5-7b-chat-awq": legacyTextModel(20000),
+	"@cf/qwen/qwen1.5-14b-chat-awq": legacyTextModel(7500),
+	"@cf/microsoft/phi-2": legacyTextModel(2048),
+	"@cf/tinyllama/tinyllama-1.1b-chat-v1.0": legacyTextModel(2048),
+	"@cf/tiiuae/falcon-7b-instruct": legacyTextModel(4096),
+	"@cf/openchat/openchat-3.5-0106": legacyTextModel(8192),
+	"@cf/thebloke/discolm-german-7b-v1-awq": legacyTextModel(4096),
+	"@cf/fblgit/una-cybertron-7b-v2-bf16": legacyTextModel(15000),
+	"@cf/defog/sqlcoder-7b-2": legacyTextModel(10000),
+	"@hf/thebloke/zephyr-7b-beta-awq": legacyTextModel(4096),
+	"@hf/thebloke/openhermes-2.5-mistral-7b-awq": legacyTextModel(4096),
+	"@hf/thebloke/neural-chat-7b-v3-1-awq": legacyTextModel(4096),
+	"@hf/nexusflow/starling-lm-7b-beta": legacyTextModel(4096),
+	"@cf/llava-hf/llava-1.5-7b-hf": textModel(4096, {
+		vision: "single-image",
+		streaming: false,
+		unsupportedSettings: ["stopSequences"],
+	}),
+	"@cf/unum/uform-gen2-qwen-500m": textModel(4096, {
+		vision: "single-image",
+		streaming: false,
+		unsupportedSettings: ["stopSequences"],
+	}),
+};
+
+/**
+ * Returns what a Workers AI model supports.
+ */
+export function getWorkersAIModelCapabilities(modelId: string): WorkersAIModelCapabilities {
+	return modelCapabilities[modelId] ?? unknownModelCapabilities;
+}
+
+/**
+ * Checks the settings of a text generation call against what the model supports. Throws if a
+ * LoRA adapter is set on a model that cannot run one. Returns a function that drops a setting
+ * the model does not accept, with a warning.
+ */
+export function checkModelSettings({
+	modelId,
+	capabilities,
+	lora,
+	warnings,
+}: {
+	modelId: string;
+	capabilities: WorkersAIModelCapabilities;
+	lora: string | undefined;
+	warnings: LanguageModelV1CallWarning[];
+}) {
+	if (lora && !capabilities.lora) {
+		throw new UnsupportedFunctionalityError({
+			functionality: "lora",
+			message: `${modelId} does not support LoRA adapters.`,
+		});
+	}
+
+	return <T>(setting: WorkersAISamplingSetting, value: T | undefined) => {
+		if (value == null || !capabilities.unsupportedSettings.includes(setting)) {
+			return value;
+		}
+		warnings.push(
+			setting === "repetitionPenalty"
+				? {
+						type: "other",
+						message: `${modelId} does not support repetitionPenalty.`,
+					}
+				: {
+						type: "unsupported-setting",
+						setting,
+						details: `${modelId} does not support ${setting}.`,
+					},
+		);
+		return undefined;
+	};
+}
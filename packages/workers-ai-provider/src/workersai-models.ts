@@ -1,9 +1,21 @@
 /**
- * The names of the BaseAiTextGeneration models.
+ * The names of the BaseAiTextGeneration models and of the vision models, which take images
+ * in their chat messages.
  */
-export type TextGenerationModels = Exclude<
-	value2key<AiModels, BaseAiTextGeneration>,
-	value2key<AiModels, BaseAiTextToImage>
+export type TextGenerationModels =
+	| Exclude<value2key<AiModels, BaseAiTextGeneration>, value2key<AiModels, BaseAiTextToImage>>
+	| VisionModels;
+
+/**
+ * The names of the vision models. Their inputs differ from BaseAiTextGeneration, so they
+ * are listed by their own types.
+ */
+export type VisionModels = value2key<
+	AiModels,
+	| BaseAiImageToText
+	| Base_Ai_Cf_Unum_Uform_Gen2_Qwen_500M
+	| Base_Ai_Cf_Meta_Llama_3_2_11B_Vision_Instruct
+	| Base_Ai_Cf_Meta_Llama_4_Scout_17B_16E_Instruct
 >;
 
 /*
@@ -16,4 +28,35 @@ export type ImageGenerationModels = value2key<AiModels, BaseAiTextToImage>;
  */
 export type EmbeddingModels = value2key<AiModels, BaseAiTextEmbeddings>;
 
+/**
+ * The names of the speech recognition models.
+ */
+export type TranscriptionModels = value2key<
+	AiModels,
+	| BaseAiAutomaticSpeechRecognition
+	| Base_Ai_Cf_Openai_Whisper
+	| Base_Ai_Cf_Openai_Whisper_Tiny_En
+	| Base_Ai_Cf_Openai_Whisper_Large_V3_Turbo
+>;
+
+/**
+ * The names of the BaseAiTextToSpeech models.
+ */
+export type SpeechModels = value2key<AiModels, BaseAiTextToSpeech>;
+
+/**
+ * The names of the reranker models.
+ */
+export type RerankerModels = value2key<AiModels, Base_Ai_Cf_Baai_Bge_Reranker_Base>;
+
+/**
+ * The names of the BaseAiTranslation models.
+ */
+export type TranslationModels = value2key<AiModels, BaseAiTranslation>;
+
+/**
+ * The names of the BaseAiSummarization models.
+ */
+export type SummarizationModels = value2key<AiModels, BaseAiSummarization>;
+
 type value2key<T, V> = { [K in keyof T]: T[K] extends V ? K : never }[keyof T];
@@ -0,0 +1,113 @@
+import { getCallRunOptions, type StringLike } from "./utils";
+import type { RerankerModels } from "./workersai-models";
+
+export type WorkersAIRerankerConfig = {
+	provider: string;
+	binding: Ai;
+	gateway?: GatewayOptions;
+};
+
+export type WorkersAIRerankerSettings = {
+	gateway?: GatewayOptions;
+	/**
+	 * Number of documents to return by default, starting with the most relevant.
+	 */
+	topK?: number;
+} & {
+	/**
+	 * Arbitrary provider-specific options forwarded unmodified.
+	 */
+	[key: string]: StringLike;
+};
+
+export type WorkersAIRerankerCallOptions = {
+	/**
+	 * The query that the documents are ranked against.
+	 */
+	query: string;
+	/**
+	 * The documents to rank.
+	 */
+	documents: string[];
+	/**
+	 * Number of documents to return, starting with the most relevant. Returns all documents
+	 * if not set.
+	 */
+	topK?: number;
+	abortSignal?: AbortSignal;
+	headers?: Record<string, string | undefined>;
+};
+
+export type WorkersAIRanking = {
+	/**
+	 * Index of the document in the documents of the call.
+	 */
+	index: number;
+	relevanceScore: number;
+};
+
+/**
+ * Ranks documents by their relevance to a query, e.g. to re-rank the candidates of a vector
+ * search before they are put into a prompt. The AI SDK has no reranking interface, so the
+ * model is called directly.
+ */
+export class WorkersAIRerankerModel {
+	readonly modelId: RerankerModels;
+	private readonly config: WorkersAIRerankerConfig;
+	private readonly settings: WorkersAIRerankerSettings;
+
+	/**
+	 * Provider name exposed for diagnostics and error reporting.
+	 */
+	get provider(): string {
+		return this.config.provider;
+	}
+
+	constructor(
+		modelId: RerankerModels,
+		settings: WorkersAIRerankerSettings,
+		config: WorkersAIRerankerConfig,
+	) {
+		this.modelId = modelId;
+		this.settings = settings;
+		this.config = config;
+	}
+
+	/**
+	 * Returns the rankings of the documents, the most relevant first.
+	 */
+	async doRerank({
+		query,
+		documents,
+		topK,
+		abortSignal,
+		headers,
+	}: WorkersAIRerankerCallOptions): Promise<{ ranking: WorkersAIRanking[] }> {
+		if (documents.length === 0) {
+			return { ranking: [] };
+		}
+
+		const { gateway, topK: defaultTopK, ...passthroughOptions } = this.settings;
+
+		const output = await this.config.binding.run(
+			this.modelId,
+			{
+				// @ts-expect-error query not yet added to types
+				query,
+				contexts: documents.map((text) => ({ text })),
+				top_k: topK ?? defaultTopK,
+			},
+			{
+				gateway: this.config.gateway ?? gateway,
+				...passthroughOptions,
+				...getCallRunOptions({ abortSignal, headers }),
+			},
+		);
+
+		return {
+			ranking: (output.response ?? [])
+				.map(({ id, score }) => ({ index: id ?? 0, relevanceScore: score ?? 0 }))
+				.sort((a, b) => b.relevanceScore - a.relevanceScore),
+		};
+	}
+}
@@ -0,0 +1,88 @@
+import { extractResponseHeaders, removeUndefinedEntries } from "@ai-sdk/provider-utils";
+
+/**
+ * Ids and usage of a Workers AI request, for cost tracking and support tickets.
+ */
+export type WorkersAIResponseMetadata = {
+	/**
+	 * Id that Cloudflare assigned to the request: its Workers AI request id, or else its ray id.
+	 */
+	requestId?: string;
+
+	/**
+	 * Id of the AI Gateway log entry, if the request went through AI Gateway.
+	 *
+	 * The binding only exposes the log id of its latest request. When calls on the same
+	 * binding overlap, this can be the log id of another call.
+	 */
+	gatewayLogId?: string;
+
+	/**
+	 * AI Gateway cache status of the response, e.g. `HIT` or `MISS`.
+	 */
+	cacheStatus?: string;
+
+	/**
+	 * Neurons that the request used.
+	 */
+	neurons?: number;
+};
+
+/**
+ * Response headers of the outputs that the REST and OpenAI-compatible run methods returned,
+ * keyed by the output. A weak map keeps them apart for concurrent calls.
+ */
+const responseHeadersByOutput = new WeakMap<object, Record<string, string>>();
+
+/**
+ * Remembers the headers of the response that an output was read from.
+ */
+export function withResponseHeaders<T>(output: T, response: Response): T {
+	if (typeof output === "object" && output !== null) {
+		responseHeadersByOutput.set(output, extractResponseHeaders(response));
+	}
+	return output;
+}
+
+/**
+ * Returns the response headers of an output of `binding.run`. The binding does not expose
+ * its headers, only the id of the AI Gateway log entry of its latest request.
+ */
+export function getResponseHeaders(
+	binding: Ai,
+	output: unknown,
+): Record<string, string> | undefined {
+	if (typeof output === "object" && output !== null) {
+		const headers = responseHeadersByOutput.get(output);
+		if (headers) {
+			return headers;
+		}
+	}
+
+	return binding.aiGatewayLogId ? { "cf-aig-log-id": binding.aiGatewayLogId } : undefined;
+}
+
+/**
+ * Returns the id Cloudflare assigned to a request, for support tickets and log lookups.
+ */
+export function getWorkersAIRequestId(
+	headers: Record<string, string> | undefined,
+): string | undefined {
+	return headers?.["cf-ai-req-id"] ?? headers?.["cf-ray"];
+}
+
+/**
+ * Reads the ids and usage of a Workers AI request from its response headers.
+ */
+export function getWorkersAIResponseMetadata(
+	headers: Record<string, string> | undefined,
+): WorkersAIResponseMetadata {
+	const neurons = Number.parseFloat(headers?.["cf-ai-neurons"] ?? "");
+
+	return removeUndefinedEntries<string | number>({
+		requestId: getWorkersAIRequestId(headers),
+		gatewayLogId: headers?.["cf-aig-log-id"],
+		cacheStatus: headers?.["cf-aig-cache-status"],
+		neurons: Number.isNaN(neurons) ? undefined : neurons,
+	}) as WorkersAIResponseMetadata;
+}
@@ -0,0 +1,113 @@
+import type { SpeechModelV1, SpeechModelV1CallWarning } from "@ai-sdk/provider";
+import { getCallRunOptions } from "./utils";
+import type { SpeechModels } from "./workersai-models";
+import type { WorkersAISpeechSettings } from "./workersai-speech-settings";
+
+export type WorkersAISpeechConfig = {
+	provider: string;
+	binding: Ai;
+	gateway?: GatewayOptions;
+};
+
+export class WorkersAISpeechModel implements SpeechModelV1 {
+	readonly specificationVersion = "v1";
+
+	get provider(): string {
+		return this.config.provider;
+	}
+
+	constructor(
+		readonly modelId: SpeechModels,
+		readonly settings: WorkersAISpeechSettings,
+		readonly config: WorkersAISpeechConfig,
+	) {}
+
+	/**
+	 * Deepgram Aura models speak English with a choice of voices and encodings. The other
+	 * models, such as MeloTTS, speak several languages with one voice each, as MP3.
+	 */
+	private getInputs(
+		{ text, voice, outputFormat }: Parameters<SpeechModelV1["doGenerate"]>[0],
+		warnings: SpeechModelV1CallWarning[],
+	) {
+		if (this.modelId.startsWith("@cf/deepgram/aura")) {
+			if (this.settings.language !== undefined) {
+				warnings.push({
+					type: "other",
+					message: `${this.modelId} only speaks English and ignores the language setting.`,
+				});
+			}
+
+			return { text, speaker: voice, encoding: outputFormat };
+		}
+
+		if (voice !== undefined) {
+			warnings.push({
+				type: "unsupported-setting",
+				setting: "voice",
+				details: `${this.modelId} has one voice per language. Use the language setting instead.`,
+			});
+		}
+
+		if (outputFormat !== undefined && outputFormat !== "mp3") {
+			warnings.push({
+				type: "unsupported-setting",
+				setting: "outputFormat",
+				details: `${this.modelId} only generates mp3 audio.`,
+			});
+		}
+
+		return { prompt: text, lang: this.settings.language };
+	}
+
+	async doGenerate(
+		options: Parameters<SpeechModelV1["doGenerate"]>[0],
+	): Promise<Awaited<ReturnType<SpeechModelV1["doGenerate"]>>> {
+		const { instructions, speed, headers, abortSignal } = options;
+
+		const warnings: SpeechModelV1CallWarning[] = [];
+
+		if (instructions !== undefined) {
+			warnings.push({
+				type: "unsupported-setting",
+				setting: "instructions",
+				details: `${this.modelId} does not support instructions.`,
+			});
+		}
+
+		if (speed !== undefined) {
+			warnings.push({
+				type: "unsupported-setting",
+				setting: "speed",
+				details: `${this.modelId} does not support changing the speed.`,
+			});
+		}
+
+		const output: Uint8Array | ReadableStream<Uint8Array> | { audio: string } =
+			await this.config.binding.run(
+				this.modelId,
+				// @ts-expect-error the inputs differ between the speech models
+				this.getInputs(options, warnings),
+				{
+					gateway: this.config.gateway ?? this.settings.gateway,
+					...getCallRunOptions({ abortSignal, headers }),
+				},
+			);
+
+		return {
+			// Base64 audio is returned as is, and the AI SDK decodes it.
+			audio:
+				output instanceof ReadableStream
+					? new Uint8Array(await new Response(output).arrayBuffer())
+					: output instanceof Uint8Array
+						? output
+						: output.audio,
+			warnings,
+			response: {
+				timestamp: new Date(),
+				modelId: this.modelId,
+				headers: undefined,
+			},
+		};
+	}
+}
@@ -0,0 +1,12 @@
+export type WorkersAISpeechSettings = {
+	/**
+	 * Language of the text, e.g. `en`, `es`, `fr`, `zh`, `jp` or `kr` for MeloTTS.
+	 * Defaults to `en`.
+	 */
+	language?: string;
+
+	/**
+	 * Optionally set Cloudflare AI Gateway options.
+	 */
+	gateway?: GatewayOptions;
+};
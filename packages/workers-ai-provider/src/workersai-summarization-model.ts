@@ -0,0 +1,123 @@
+import { splitText } from "./split-text";
+import { getCallRunOptions, runConcurrently, type StringLike } from "./utils";
+import type { SummarizationModels } from "./workersai-models";
+
+export type WorkersAISummarizationConfig = {
+	provider: string;
+	binding: Ai;
+	gateway?: GatewayOptions;
+};
+
+export type WorkersAISummarizationSettings = {
+	gateway?: GatewayOptions;
+	/**
+	 * Maximum length of the summary in tokens. Defaults to the model's default.
+	 */
+	maxLength?: number;
+	/**
+	 * Maximum length of the text per model call, in characters. Longer texts are split at
+	 * sentence breaks, the parts are summarised, and then their summaries. Defaults to 3000.
+	 */
+	maxChunkLength?: number;
+	/**
+	 * Maximum number of parts summarised at the same time. Defaults to 2.
+	 */
+	maxConcurrency?: number;
+} & {
+	/**
+	 * Arbitrary provider-specific options forwarded unmodified.
+	 */
+	[key: string]: StringLike;
+};
+
+export type WorkersAISummarizationCallOptions = {
+	text: string;
+	abortSignal?: AbortSignal;
+	headers?: Record<string, string | undefined>;
+};
+
+const DEFAULT_MAX_CONCURRENCY = 2;
+
+/**
+ * Summarises texts. The AI SDK has no summarization interface, so the model is called
+ * directly.
+ */
+export class WorkersAISummarizationModel {
+	readonly modelId: SummarizationModels;
+	private readonly config: WorkersAISummarizationConfig;
+	private readonly settings: WorkersAISummarizationSettings;
+
+	/**
+	 * Provider name exposed for diagnostics and error reporting.
+	 */
+	get provider(): string {
+		return this.config.provider;
+	}
+
+	constructor(
+		modelId: SummarizationModels,
+		settings: WorkersAISummarizationSettings,
+		config: WorkersAISummarizationConfig,
+	) {
+		this.modelId = modelId;
+		this.settings = settings;
+		this.config = config;
+	}
+
+	async doSummarize({
+		text,
+		abortSignal,
+		headers,
+	}: WorkersAISummarizationCallOptions): Promise<{ text: string }> {
+		const {
+			gateway,
+			maxLength,
+			maxChunkLength = 3000,
+			maxConcurrency = DEFAULT_MAX_CONCURRENCY,
+			...passthroughOptions
+		} = this.settings;
+
+		const summarize = async (chunk: string) => {
+			const output = await this.config.binding.run(
+				this.modelId,
+				{
+					input_text: chunk,
+					max_length: maxLength,
+				},
+				{
+					gateway: this.config.gateway ?? gateway,
+					...passthroughOptions,
+					...getCallRunOptions({ abortSignal, headers }),
+				},
+			);
+
+			if (typeof output?.summary !== "string") {
+				throw new Error(`${this.modelId} did not return a summary.`);
+			}
+
+			return output.summary.trim();
+		};
+
+		let input = text.trim();
+		let chunks = splitText(input, maxChunkLength);
+
+		// Long texts are summarised in parts, until the summaries fit into a single call. If the
+		// summaries are no shorter than their input, they are returned as they are.
+		while (chunks.length > 1) {
+			const parts = chunks;
+			const summaries = await runConcurrently(parts.length, maxConcurrency, (index) =>
+				summarize(parts[index]!),
+			);
+			const summary = summaries.join("\n\n");
+
+			if (summary.length >= input.length) {
+				return { text: summary };
+			}
+
+			input = summary;
+			chunks = splitText(input, maxChunkLength);
+		}
+
+		return { text: chunks[0] ? await summarize(chunks[0]) : "" };
+	}
+}
@@ -0,0 +1,128 @@
+import type { TranscriptionModelV1, TranscriptionModelV1CallWarning } from "@ai-sdk/provider";
+import { convertBase64ToUint8Array, convertUint8ArrayToBase64 } from "@ai-sdk/provider-utils";
+import { getCallRunOptions } from "./utils";
+import type { TranscriptionModels } from "./workersai-models";
+import type { WorkersAITranscriptionSettings } from "./workersai-transcription-settings";
+
+export type WorkersAITranscriptionConfig = {
+	provider: string;
+	binding: Ai;
+	gateway?: GatewayOptions;
+};
+
+type WorkersAIWord = { word?: string; start?: number; end?: number };
+
+type WorkersAITranscriptionOutput = {
+	text: string;
+	words?: WorkersAIWord[];
+	segments?: Array<{ text?: string; start?: number; end?: number; words?: WorkersAIWord[] }>;
+	transcription_info?: { language?: string; duration?: number };
+	vtt?: string;
+};
+
+/**
+ * Whisper large v3 turbo takes base64 audio and accepts options. The other Whisper models
+ * take the audio as an array of bytes and nothing else.
+ */
+const base64AudioModels: ReadonlyArray<string> = ["@cf/openai/whisper-large-v3-turbo"];
+
+export class WorkersAITranscriptionModel implements TranscriptionModelV1 {
+	readonly specificationVersion = "v1";
+
+	get provider(): string {
+		return this.config.provider;
+	}
+
+	constructor(
+		readonly modelId: TranscriptionModels,
+		readonly settings: WorkersAITranscriptionSettings,
+		readonly config: WorkersAITranscriptionConfig,
+	) {}
+
+	private getInputs(audio: Uint8Array | string, warnings: TranscriptionModelV1CallWarning[]) {
+		const { language, task, vadFilter, initialPrompt } = this.settings;
+
+		if (base64AudioModels.includes(this.modelId)) {
+			return {
+				audio: typeof audio === "string" ? audio : convertUint8ArrayToBase64(audio),
+				language,
+				task,
+				vad_filter: vadFilter,
+				initial_prompt: initialPrompt,
+			};
+		}
+
+		for (const [setting, value] of Object.entries({
+			language,
+			task,
+			vadFilter,
+			initialPrompt,
+		})) {
+			if (value !== undefined) {
+				warnings.push({
+					type: "other",
+					message: `${this.modelId} does not support the ${setting} setting.`,
+				});
+			}
+		}
+
+		return {
+			audio: Array.from(typeof audio === "string" ? convertBase64ToUint8Array(audio) : audio),
+		};
+	}
+
+	async doGenerate({
+		audio,
+		headers,
+		abortSignal,
+	}: Parameters<TranscriptionModelV1["doGenerate"]>[0]): Promise<
+		Awaited<ReturnType<TranscriptionModelV1["doGenerate"]>>
+	> {
+		const warnings: TranscriptionModelV1CallWarning[] = [];
+
+		const output = (await this.config.binding.run(
+			this.modelId,
+			// @ts-expect-error the inputs differ between the Whisper models
+			this.getInputs(audio, warnings),
+			{
+				gateway: this.config.gateway ?? this.settings.gateway,
+				...getCallRunOptions({ abortSignal, headers }),
+			},
+		)) as WorkersAITranscriptionOutput;
+
+		// Models without segments only time the words.
+		const words =
+			output.words ?? output.segments?.flatMap((segment) => segment.words ?? []) ?? [];
+		const segments =
+			output.segments ?? words.map(({ word, ...timing }) => ({ text: word, ...timing }));
+
+		return {
+			text: output.text,
+			segments: segments.map(({ text, start, end }) => ({
+				text: text?.trim() ?? "",
+				startSecond: start ?? 0,
+				endSecond: end ?? 0,
+			})),
+			language: output.transcription_info?.language,
+			durationInSeconds:
+				output.transcription_info?.duration ?? segments[segments.length - 1]?.end,
+			warnings,
+			response: {
+				timestamp: new Date(),
+				modelId: this.modelId,
+				headers: undefined,
+				body: output,
+			},
+			providerMetadata: {
+				workersai: {
+					words: words.map(({ word, start, end }) => ({
+						word: word ?? "",
+						startSecond: start ?? 0,
+						endSecond: end ?? 0,
+					})),
+					...(output.vtt !== undefined ? { vtt: output.vtt } : {}),
+				},
+			},
+		};
+	}
+}
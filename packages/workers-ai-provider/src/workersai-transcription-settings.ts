@@ -0,0 +1,30 @@
+export type WorkersAITranscriptionSettings = {
+	/**
+	 * Language of the audio, as an ISO-639-1 code. Detected from the audio if not set.
+	 * Only supported by `@cf/openai/whisper-large-v3-turbo`.
+	 */
+	language?: string;
+
+	/**
+	 * Whether to transcribe the audio, or translate it into English. Defaults to `transcribe`.
+	 * Only supported by `@cf/openai/whisper-large-v3-turbo`.
+	 */
+	task?: "transcribe" | "translate";
+
+	/**
+	 * Whether to remove silence with voice activity detection before transcribing.
+	 * Only supported by `@cf/openai/whisper-large-v3-turbo`.
+	 */
+	vadFilter?: boolean;
+
+	/**
+	 * Text that gives the model context on the audio, e.g. names and technical terms.
+	 * Only supported by `@cf/openai/whisper-large-v3-turbo`.
+	 */
+	initialPrompt?: string;
+
+	/**
+	 * Optionally set Cloudflare AI Gateway options.
+	 */
+	gateway?: GatewayOptions;
+};
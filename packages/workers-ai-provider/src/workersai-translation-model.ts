@@ -0,0 +1,147 @@
+import { InvalidArgumentError } from "@ai-sdk/provider";
+import { splitText, transformChunk } from "./split-text";
+import { getCallRunOptions, runConcurrently, type StringLike } from "./utils";
+import type { TranslationModels } from "./workersai-models";
+
+export type WorkersAITranslationConfig = {
+	provider: string;
+	binding: Ai;
+	gateway?: GatewayOptions;
+};
+
+export type WorkersAITranslationSettings = {
+	gateway?: GatewayOptions;
+	/**
+	 * Maximum length of the text per model call, in characters. Longer texts are split at
+	 * sentence breaks and translated in parts. Defaults to 2000.
+	 */
+	maxChunkLength?: number;
+	/**
+	 * Maximum number of parts translated at the same time. Defaults to 2.
+	 */
+	maxConcurrency?: number;
+} & {
+	/**
+	 * Arbitrary provider-specific options forwarded unmodified.
+	 */
+	[key: string]: StringLike;
+};
+
+export type WorkersAITranslationCallOptions = {
+	text: string;
+	/**
+	 * Language code to translate into, e.g. `fr`.
+	 */
+	targetLanguage: string;
+	/**
+	 * Language code of the text. Defaults to `en`.
+	 */
+	sourceLanguage?: string;
+	abortSignal?: AbortSignal;
+	headers?: Record<string, string | undefined>;
+};
+
+/**
+ * The language codes that M2M100 translates between.
+ *
+ * @see https://huggingface.co/facebook/m2m100_1.2B
+ */
+const m2m100Languages: ReadonlyArray<string> = [
+	"af am ar ast az ba be bg bn br bs ca ceb cs cy da de el en es et fa ff fi fr fy ",
+	"ga gd gl gu ha he hi hr ht hu hy id ig ilo is it ja jv ka kk km kn ko lb lg ln ",
+	"lo lt lv mg mk ml mn mr ms my ne nl no ns oc or pa pl ps pt ro ru sd si sk sl ",
+	"so sq sr ss su sv sw ta th tl tn tr uk ur uz vi wo xh yi yo zh zu",
+]
+	.join("")
+	.split(" ");
+
+const DEFAULT_MAX_CONCURRENCY = 2;
+
+const supportedLanguages: Partial<Record<string, ReadonlyArray<string>>> = {
+	"@cf/meta/m2m100-1.2b": m2m100Languages,
+};
+
+/**
+ * Translates texts between languages. The AI SDK has no translation interface, so the model
+ * is called directly.
+ */
+export class WorkersAITranslationModel {
+	readonly modelId: TranslationModels;
+	private readonly config: WorkersAITranslationConfig;
+	private readonly settings: WorkersAITranslationSettings;
+
+	/**
+	 * Provider name exposed for diagnostics and error reporting.
+	 */
+	get provider(): string {
+		return this.config.provider;
+	}
+
+	constructor(
+		modelId: TranslationModels,
+		settings: WorkersAITranslationSettings,
+		config: WorkersAITranslationConfig,
+	) {
+		this.modelId = modelId;
+		this.settings = settings;
+		this.config = config;
+	}
+
+	private checkLanguage(argument: string, language: string) {
+		const languages = supportedLanguages[this.modelId];
+
+		if (languages && !languages.includes(language)) {
+			throw new InvalidArgumentError({
+				argument,
+				message: `${this.modelId} does not support the language code '${language}'. Supported codes: ${languages.join(", ")}.`,
+			});
+		}
+	}
+
+	async doTranslate({
+		text,
+		targetLanguage,
+		sourceLanguage = "en",
+		abortSignal,
+		headers,
+	}: WorkersAITranslationCallOptions): Promise<{ text: string }> {
+		this.checkLanguage("targetLanguage", targetLanguage);
+		this.checkLanguage("sourceLanguage", sourceLanguage);
+
+		const {
+			gateway,
+			maxChunkLength = 2000,
+			maxConcurrency = DEFAULT_MAX_CONCURRENCY,
+			...passthroughOptions
+		} = this.settings;
+
+		const translate = async (chunk: string) => {
+			const output = await this.config.binding.run(
+				this.modelId,
+				{
+					text: chunk,
+					source_lang: sourceLanguage,
+					target_lang: targetLanguage,
+				},
+				{
+					gateway: this.config.gateway ?? gateway,
+					...passthroughOptions,
+					...getCallRunOptions({ abortSignal, headers }),
+				},
+			);
+
+			if (typeof output?.translated_text !== "string") {
+				throw new Error(`${this.modelId} did not return a translation.`);
+			}
+
+			return output.translated_text;
+		};
+
+		const chunks = splitText(text, maxChunkLength);
+		const translations = await runConcurrently(chunks.length, maxConcurrency, (index) =>
+			transformChunk(chunks[index]!, translate),
+		);
+
+		return { text: translations.join("") };
+	}
+}
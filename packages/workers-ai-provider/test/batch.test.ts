@@ -0,0 +1,259 @@
+import type { LanguageModelV1CallOptions } from "@ai-sdk/provider";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { createWorkersAI } from "../src/index";
+
+const TEST_ACCOUNT_ID = "test-account-id";
+const TEST_API_KEY = "test-api-key";
+const TEST_MODEL = "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
+const TEST_EMBEDDING_MODEL = "@cf/baai/bge-m3";
+
+const call = (text: string): LanguageModelV1CallOptions => ({
+	inputFormat: "prompt",
+	mode: { type: "regular" },
+	prompt: [{ role: "user", content: [{ type: "text", text }] }],
+});
+
+const server = setupServer();
+
+describe("REST API - Batch Tests", () => {
+	beforeAll(() => server.listen());
+	afterEach(() => server.resetHandlers());
+	afterAll(() => server.close());
+
+	it("should queue embeddings and map the results back to the order of the values", async () => {
+		const capturedRequests: Array<{ url: string; body: any }> = [];
+		let polls = 0;
+
+		server.use(
+			http.post(
+				`https://api.cloudflare.com/client/v4/accounts/${TEST_ACCOUNT_ID}/ai/run/${TEST_EMBEDDING_MODEL}`,
+				async ({ request }) => {
+					const body: any = await request.json();
+					capturedRequests.push({ url: request.url, body });
+
+					if (body.requests) {
+						return HttpResponse.json({
+							result: { status: "queued", request_id: "batch-1" },
+						});
+					}
+					if (polls++ === 0) {
+						return HttpResponse.json({ result: { status: "running" } });
+					}
+					return HttpResponse.json({
+						result: {
+							responses: [
+								{
+									id: 1,
+									external_reference: "1",
+									success: true,
+									result: { data: [[3]] },
+								},
+								{
+									id: 0,
+									external_reference: "0",
+									success: true,
+									result: { data: [[1], [2]] },
+								},
+							],
+						},
+					});
+				},
+			),
+		);
+
+		const workersai = createWorkersAI({
+			apiKey: TEST_API_KEY,
+			accountId: TEST_ACCOUNT_ID,
+		});
+
+		const model = workersai.textEmbedding(TEST_EMBEDDING_MODEL, { maxEmbeddingsPerCall: 2 });
+		const batch = await model.doEmbedBatch({ values: ["a", "b", "c"] });
+
+		expect(batch.requestId).toBe("batch-1");
+		expect(capturedRequests[0]!.url).toMatch(/\?queueRequest=true$/);
+		expect(capturedRequests[0]!.body).toEqual({
+			requests: [
+				{ text: ["a", "b"], external_reference: "0" },
+				{ text: ["c"], external_reference: "1" },
+			],
+		});
+
+		// A later run of the job resumes the batch from its id.
+		const resumed = model.resumeBatch(batch.requestId);
+
+		expect(await resumed.poll()).toEqual({ status: "running" });
+		expect(await resumed.wait({ pollIntervalInMs: 0 })).toEqual([
+			{ index: 0, result: [1] },
+			{ index: 1, result: [2] },
+			{ index: 2, result: [3] },
+		]);
+		expect(capturedRequests[1]!.body).toEqual({ request_id: "batch-1" });
+	});
+});
+
+describe("Binding - Batch Tests", () => {
+	it("should queue chat calls and return results in the shape of doGenerate", async () => {
+		const capturedInputs: any[] = [];
+		const capturedOptions: any[] = [];
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any, options: any) => {
+					capturedInputs.push(inputs);
+					capturedOptions.push(options);
+
+					if (inputs.requests) {
+						return { status: "queued", request_id: "batch-2" };
+					}
+					return {
+						responses: [
+							{
+								external_reference: "1",
+								success: true,
+								result: { response: "Bonjour" },
+							},
+							{
+								external_reference: "0",
+								success: true,
+								result: {
+									response: "Hello",
+									usage: { prompt_tokens: 3, completion_tokens: 1 },
+								},
+							},
+						],
+					};
+				},
+			},
+		});
+
+		const batch = await workersai(TEST_MODEL).doGenerateBatch([
+			call("Say hello"),
+			call("Say hello in French"),
+		]);
+		const results = await batch.wait();
+
+		expect(capturedInputs[0].requests).toMatchObject([
+			{
+				messages: [{ role: "user", content: "Say hello" }],
+				external_reference: "0",
+			},
+			{
+				messages: [{ role: "user", content: "Say hello in French" }],
+				external_reference: "1",
+			},
+		]);
+		expect(capturedOptions).toMatchObject([{ queueRequest: true }, { queueRequest: true }]);
+		expect(results).toMatchObject([
+			{
+				index: 0,
+				result: {
+					text: "Hello",
+					finishReason: "stop",
+					usage: { promptTokens: 3, completionTokens: 1 },
+				},
+			},
+			{ index: 1, result: { text: "Bonjour", finishReason: "stop" } },
+		]);
+		expect((results[1] as any).result.usage.promptTokens).toBeNaN();
+	});
+
+	it("should return the error of a failed embedding request for each of its values", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					if (inputs.requests) {
+						return { status: "queued", request_id: "batch-4" };
+					}
+					return {
+						responses: [
+							{
+								external_reference: "0",
+								success: true,
+								result: { data: [[1], [2]] },
+							},
+							{ external_reference: "1", success: false, error: "Input too long" },
+						],
+					};
+				},
+			},
+		});
+
+		const model = workersai.textEmbedding(TEST_EMBEDDING_MODEL, { maxEmbeddingsPerCall: 2 });
+		const batch = await model.doEmbedBatch({ values: ["a", "b", "c", "d"] });
+
+		expect(await batch.wait()).toEqual([
+			{ index: 0, result: [1] },
+			{ index: 1, result: [2] },
+			{ index: 2, error: "Input too long" },
+			{ index: 3, error: "Input too long" },
+		]);
+		expect(await model.resumeBatch("batch-4").poll()).toMatchObject({
+			results: [{ index: 0 }, { index: 1 }, { index: 2, error: "Input too long" }],
+		});
+	});
+
+	it("should prepare the calls of a resumed batch like those of the submitted batch", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					if (inputs.requests) {
+						return { status: "queued", request_id: "batch-5" };
+					}
+					return {
+						responses: [
+							{ external_reference: "0", success: true, result: { response: "Hi" } },
+						],
+					};
+				},
+			},
+		});
+
+		const model = workersai(TEST_MODEL, { truncatePrompt: { contextWindow: 1000 } });
+		const longCall: LanguageModelV1CallOptions = {
+			...call("And now?"),
+			prompt: [
+				{ role: "user", content: [{ type: "text", text: "x".repeat(8000) }] },
+				{ role: "user", content: [{ type: "text", text: "And now?" }] },
+			],
+		};
+
+		const expected = [
+			{
+				result: {
+					rawCall: { rawPrompt: [{ role: "user", content: "And now?" }] },
+					warnings: [{ type: "other", message: expect.stringContaining("Dropped") }],
+				},
+			},
+		];
+
+		expect(await (await model.doGenerateBatch([longCall])).wait()).toMatchObject(expected);
+		expect(await (await model.resumeBatch("batch-5", [longCall])).wait()).toMatchObject(
+			expected,
+		);
+	});
+
+	it("should return the errors of failed requests next to the other results", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => ({
+					responses: [
+						{ external_reference: "0", success: true, result: { response: "Hello" } },
+						{ external_reference: "1", success: false, error: "Input too long" },
+					],
+				}),
+			},
+		});
+
+		const batch = await workersai(TEST_MODEL).resumeBatch("batch-3");
+
+		expect(await batch.poll()).toMatchObject({
+			status: "complete",
+			results: [
+				{ index: 0, result: { text: "Hello" } },
+				{ index: 1, error: "Input too long" },
+			],
+		});
+	});
+});
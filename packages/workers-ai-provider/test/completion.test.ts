@@ -0,0 +1,283 @@
+import { UnsupportedFunctionalityError } from "@ai-sdk/provider";
+import { generateText, streamText } from "ai";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { createWorkersAI } from "../src/index";
+import { mockStream } from "./fixtures";
+
+const TEST_ACCOUNT_ID = "test-account-id";
+const TEST_API_KEY = "test-api-key";
+const TEST_MODEL = "@cf/meta/llama-3.1-8b-instruct";
+const BASE_MODEL = "@hf/thebloke/deepseek-coder-6.7b-base-awq";
+const LORA_MODEL = "@cf/mistral/mistral-7b-instruct-v0.2-lora";
+
+const server = setupServer();
+
+describe("REST API - Completion Tests", () => {
+	beforeAll(() => server.listen());
+	afterEach(() => server.resetHandlers());
+	afterAll(() => server.close());
+
+	it("should send the LoRA adapter in the body", async () => {
+		let capturedUrl: URL | null = null;
+		let capturedBody: any = null;
+
+		server.use(
+			http.post(
+				`https://api.cloudflare.com/client/v4/accounts/${TEST_ACCOUNT_ID}/ai/run/${LORA_MODEL}`,
+				async ({ request }) => {
+					capturedUrl = new URL(request.url);
+					capturedBody = await request.json();
+					return HttpResponse.json({ result: { response: "Bonjour" } });
+				},
+			),
+		);
+
+		const workersai = createWorkersAI({
+			apiKey: TEST_API_KEY,
+			accountId: TEST_ACCOUNT_ID,
+		});
+
+		const result = await generateText({
+			model: workersai.completion(LORA_MODEL, { lora: "my-french-adapter" }),
+			prompt: "[INST] Say hello in French [/INST]",
+		});
+
+		expect(result.text).toBe("Bonjour");
+		expect(capturedUrl!.search).toBe("");
+		expect(capturedBody).toMatchObject({
+			prompt: "[INST] Say hello in French [/INST]",
+			raw: true,
+			lora: "my-french-adapter",
+		});
+	});
+});
+
+describe("Binding - Completion Tests", () => {
+	it("should send a plain text prompt unchanged", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return { response: "return a + b;\n}" };
+				},
+			},
+		});
+
+		const result = await generateText({
+			model: workersai.completion(TEST_MODEL),
+			prompt: "function add(a, b) {\n",
+			maxTokens: 32,
+			stopSequences: ["\n\n"],
+		});
+
+		expect(result.text).toBe("return a + b;\n}");
+		expect(capturedInputs).toMatchObject({
+			prompt: "function add(a, b) {\n",
+			raw: true,
+			max_tokens: 32,
+			stop: ["\n\n"],
+		});
+		expect(capturedInputs.messages).toBeUndefined();
+	});
+
+	it("should flatten messages with the default template", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return { response: "Fine, thanks." };
+				},
+			},
+		});
+
+		await generateText({
+			model: workersai.completion(TEST_MODEL),
+			system: "You are friendly.",
+			messages: [
+				{ role: "user", content: "Hello" },
+				{ role: "assistant", content: "Hi!" },
+				{ role: "user", content: "How are you?" },
+			],
+		});
+
+		expect(capturedInputs.prompt).toBe(
+			"You are friendly.\n\nuser:\nHello\n\nassistant:\nHi!\n\nuser:\nHow are you?\n\nassistant:\n",
+		);
+		expect(capturedInputs.stop).toEqual(["\nuser:"]);
+	});
+
+	it("should flatten messages with a custom template", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return { response: "Fine, thanks." };
+				},
+			},
+		});
+
+		await generateText({
+			model: workersai.completion(TEST_MODEL, {
+				template: (messages) =>
+					messages.map(({ role, content }) => `### ${role}\n${content}`).join("\n"),
+			}),
+			system: "You are friendly.",
+			prompt: "How are you?",
+		});
+
+		expect(capturedInputs).toMatchObject({
+			prompt: "### system\nYou are friendly.\n### user\nHow are you?",
+			raw: true,
+		});
+		expect(capturedInputs.stop).toBeUndefined();
+	});
+
+	it("should send messages in the chat template of the model without raw", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return { response: "Fine, thanks." };
+				},
+			},
+		});
+
+		await generateText({
+			model: workersai.completion(TEST_MODEL, { raw: false }),
+			system: "You are friendly.",
+			prompt: "How are you?",
+		});
+
+		expect(capturedInputs.messages).toEqual([
+			{ role: "system", content: "You are friendly." },
+			{ role: "user", content: "How are you?" },
+		]);
+		expect(capturedInputs.prompt).toBeUndefined();
+		expect(capturedInputs.raw).toBeUndefined();
+		expect(capturedInputs.stop).toBeUndefined();
+	});
+
+	it("should leave out the template stop sequences for models that do not accept stop", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return { response: "Fine, thanks." };
+				},
+			},
+		});
+
+		const result = await generateText({
+			model: workersai.completion(BASE_MODEL),
+			messages: [{ role: "user", content: "How are you?" }],
+		});
+
+		expect(result.warnings).toEqual([]);
+		expect(capturedInputs.prompt).toBe("user:\nHow are you?\n\nassistant:\n");
+		expect(capturedInputs.stop).toBeUndefined();
+	});
+
+	it("should warn about the stop sequences of the call for models that do not accept stop", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return { response: "return a + b;\n}" };
+				},
+			},
+		});
+
+		const result = await generateText({
+			model: workersai.completion(BASE_MODEL),
+			prompt: "function add(a, b) {\n",
+			stopSequences: ["\n\n"],
+		});
+
+		expect(result.warnings).toEqual([
+			{
+				type: "unsupported-setting",
+				setting: "stopSequences",
+				details: `${BASE_MODEL} does not support stopSequences.`,
+			},
+		]);
+		expect(capturedInputs.stop).toBeUndefined();
+	});
+
+	it("should stream the completion", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return mockStream([{ response: "return a" }, { response: " + b;" }, "[DONE]"]);
+				},
+			},
+		});
+
+		const result = streamText({
+			model: workersai.completion(TEST_MODEL),
+			prompt: "function add(a, b) {\n",
+		});
+
+		let text = "";
+		for await (const chunk of result.textStream) {
+			text += chunk;
+		}
+
+		expect(text).toBe("return a + b;");
+		expect(capturedInputs).toMatchObject({ prompt: "function add(a, b) {\n", stream: true });
+	});
+
+	it("should reject LoRA adapters on models without LoRA support", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => ({ response: "Hello" }),
+			},
+		});
+
+		await expect(
+			generateText({
+				model: workersai.completion("@cf/meta/llama-3.3-70b-instruct-fp8-fast", {
+					lora: "my-adapter",
+				}),
+				prompt: "Hello",
+			}),
+		).rejects.toThrow(UnsupportedFunctionalityError);
+	});
+
+	it("should reject tools", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => ({ response: "Hello" }),
+			},
+		});
+
+		await expect(
+			generateText({
+				model: workersai.completion(TEST_MODEL),
+				prompt: "Hello",
+				tools: {
+					get_weather: {
+						parameters: z.object({ location: z.string() }),
+					},
+				},
+			}),
+		).rejects.toThrow(UnsupportedFunctionalityError);
+	});
+});
@@ -0,0 +1,204 @@
+import { generateText, streamText } from "ai";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { injectToolPrompt, parseEmulatedToolCalls } from "../src/emulate-tool-calling";
+import { createWorkersAI } from "../src/index";
+
+const TEST_MODEL = "@cf/meta/llama-2-7b-chat-int8";
+
+const weatherTools = [
+	{
+		type: "function",
+		function: {
+			name: "get_weather",
+			description: "Get the weather in a location",
+			parameters: { type: "object", properties: { location: { type: "string" } } },
+		},
+	},
+];
+
+describe("parseEmulatedToolCalls", () => {
+	it("should parse tool call tags and keep the remaining text", () => {
+		const { text, toolCalls } = parseEmulatedToolCalls(
+			'Let me check.\n<tool_call>{"name": "get_weather", "arguments": {"location": "London"}}</tool_call>\n<tool_call>{"name": "get_weather", "arguments": {"location": "Paris"}}</tool_call>',
+			weatherTools,
+		);
+
+		expect(text).toBe("Let me check.");
+		expect(toolCalls).toMatchObject([
+			{ toolName: "get_weather", args: '{"location":"London"}' },
+			{ toolName: "get_weather", args: '{"location":"Paris"}' },
+		]);
+		expect(toolCalls[0]!.toolCallId).not.toBe(toolCalls[1]!.toolCallId);
+	});
+
+	it("should parse a bare JSON object in a code block", () => {
+		const { text, toolCalls } = parseEmulatedToolCalls(
+			'```json\n{"name": "get_weather", "parameters": {"location": "London"}}\n```',
+			weatherTools,
+		);
+
+		expect(text).toBe("");
+		expect(toolCalls).toMatchObject([
+			{ toolName: "get_weather", args: '{"location":"London"}' },
+		]);
+	});
+
+	it("should repair malformed JSON", () => {
+		const { toolCalls } = parseEmulatedToolCalls(
+			"<tool_call>{name: 'get_weather', arguments: {location: 'London',}",
+			weatherTools,
+		);
+
+		expect(toolCalls).toMatchObject([
+			{ toolName: "get_weather", args: '{"location":"London"}' },
+		]);
+	});
+
+	it("should leave calls of unknown tools and plain answers in the text", () => {
+		expect(
+			parseEmulatedToolCalls(
+				'<tool_call>{"name": "get_time", "arguments": {}}</tool_call>',
+				weatherTools,
+			),
+		).toEqual({
+			text: '<tool_call>{"name": "get_time", "arguments": {}}</tool_call>',
+			toolCalls: [],
+		});
+		expect(parseEmulatedToolCalls("It is sunny.", weatherTools)).toEqual({
+			text: "It is sunny.",
+			toolCalls: [],
+		});
+	});
+});
+
+describe("injectToolPrompt", () => {
+	it("should add the tools to the system prompt and write tool history as text", () => {
+		const messages = injectToolPrompt(
+			[
+				{ role: "system", content: "You are a weather bot." },
+				{ role: "user", content: "Weather in London and Paris?" },
+				{
+					role: "assistant",
+					content: "",
+					tool_calls: [
+						{
+							id: "1",
+							type: "function",
+							function: { name: "get_weather", arguments: '{"location":"London"}' },
+						},
+						{
+							id: "2",
+							type: "function",
+							function: { name: "get_weather", arguments: '{"location":"Paris"}' },
+						},
+					],
+				},
+				{ role: "tool", tool_call_id: "1", name: "get_weather", content: '"Raining"' },
+				{ role: "tool", tool_call_id: "2", name: "get_weather", content: '"Sunny"' },
+			],
+			weatherTools,
+			"auto",
+		);
+
+		expect(messages).toHaveLength(4);
+		expect(messages[0]!.content).toContain("You are a weather bot.\n\nYou have access to");
+		expect(messages[0]!.content).toContain('"name":"get_weather"');
+		expect(messages.slice(2)).toEqual([
+			{
+				role: "assistant",
+				content: [
+					'<tool_call>{"name":"get_weather","arguments":{"location":"London"}}</tool_call>',
+					'<tool_call>{"name":"get_weather","arguments":{"location":"Paris"}}</tool_call>',
+				].join("\n"),
+			},
+			{
+				role: "user",
+				content: [
+					'<tool_result name="get_weather">"Raining"</tool_result>',
+					'<tool_result name="get_weather">"Sunny"</tool_result>',
+				].join("\n"),
+			},
+		]);
+	});
+});
+
+describe("Binding - Tool Calling Emulation", () => {
+	const tools = {
+		get_weather: {
+			description: "Get the weather in a location",
+			parameters: z.object({ location: z.string() }),
+			execute: async () => "Raining",
+		},
+	};
+
+	it("should run a multi-step tool loop through the prompt", async () => {
+		const capturedInputs: any[] = [];
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs.push(inputs);
+					return capturedInputs.length === 1
+						? {
+								response:
+									'<tool_call>{"name": "get_weather", "arguments": {"location": "London"}}</tool_call>',
+							}
+						: { response: "It is raining in London." };
+				},
+			},
+		});
+
+		const result = await generateText({
+			model: workersai(TEST_MODEL, { emulateToolCalling: true }),
+			prompt: "What is the weather in London?",
+			maxSteps: 2,
+			tools,
+		});
+
+		expect(result.text).toBe("It is raining in London.");
+		expect(result.steps[0]!.toolCalls).toMatchObject([
+			{ toolName: "get_weather", args: { location: "London" } },
+		]);
+		expect(capturedInputs[0].tools).toBeUndefined();
+		expect(capturedInputs[0].messages[0].role).toBe("system");
+		expect(capturedInputs[1].messages.slice(2)).toEqual([
+			{
+				role: "assistant",
+				content:
+					'<tool_call>{"name":"get_weather","arguments":{"location":"London"}}</tool_call>',
+			},
+			{ role: "user", content: '<tool_result name="get_weather">"Raining"</tool_result>' },
+		]);
+	});
+
+	it("should stream emulated tool calls", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return {
+						response:
+							'<tool_call>{"name": "get_weather", "arguments": {"location": "London"}}</tool_call>',
+					};
+				},
+			},
+		});
+
+		const result = streamText({
+			model: workersai(TEST_MODEL, { emulateToolCalling: true }),
+			prompt: "What is the weather in London?",
+			tools,
+		});
+
+		await result.consumeStream();
+
+		expect(capturedInputs.stream).toBeUndefined();
+		expect(await result.finishReason).toBe("tool-calls");
+		expect(await result.toolCalls).toMatchObject([
+			{ toolName: "get_weather", args: { location: "London" } },
+		]);
+	});
+});
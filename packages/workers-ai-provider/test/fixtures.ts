@@ -0,0 +1,109 @@
+import { TextEncoder } from "node:util";
+
+/**
+ * Models, outputs and stream helpers that the tests share, so that the V1 and V2 models are
+ * checked against the same responses.
+ */
+export const CHAT_MODEL = "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
+export const REASONING_MODEL = "@cf/deepseek-ai/deepseek-r1-distill-qwen-32b";
+export const EMBEDDING_MODEL = "@cf/baai/bge-base-en-v1.5";
+export const IMAGE_MODEL = "@cf/black-forest-labs/flux-1-schnell";
+
+export const reasoningOutput = {
+	response: "Two plus two is four.</think>4",
+	usage: { prompt_tokens: 9, completion_tokens: 8 },
+};
+
+export const reasoningStreamChunks = [
+	{ response: "Two plus" },
+	{ response: " two is four.</think>" },
+	{ response: "4", usage: { prompt_tokens: 9, completion_tokens: 8 } },
+	"[DONE]",
+];
+
+export const toolCallStreamChunks = [
+	{
+		tool_calls: [
+			{
+				index: 0,
+				id: "call_1",
+				type: "function",
+				function: { name: "get_weather", arguments: '{"location":' },
+			},
+		],
+	},
+	{ tool_calls: [{ index: 0, function: { arguments: '"London"}' } }] },
+	"[DONE]",
+];
+
+export const getWeatherTool = {
+	name: "get_weather",
+	description: "Get the weather in a location",
+	parameters: {
+		type: "object",
+		properties: { location: { type: "string" } },
+		required: ["location"],
+	},
+};
+
+export const embeddingOutput = {
+	shape: [2, 2],
+	data: [
+		[0.1, 0.2],
+		[0.3, 0.4],
+	],
+};
+
+export const imageOutput = { image: "AQID" };
+
+export const autoRAGOutput = {
+	response: "The lighthouse was built in 1890.",
+	data: [{ file_id: "file-1", filename: "history.md", score: 0.9 }],
+};
+
+/**
+ * Returns a binding whose run method returns `output`, and records the inputs and options
+ * of the calls.
+ */
+export function createMockBinding(output: unknown) {
+	const calls: Array<{ inputs: any; options: any }> = [];
+
+	return {
+		calls,
+		binding: {
+			run: async (_modelName: string, inputs: any, options: any) => {
+				calls.push({ inputs, options });
+				return typeof output === "function" ? output() : output;
+			},
+		} as unknown as Ai,
+	};
+}
+
+/**
+ * Encodes chunks as server-sent events. Strings such as `[DONE]` are sent as they are.
+ */
+export function mockStream(chunks: unknown[]): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	return new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (const chunk of chunks) {
+				const data = typeof chunk === "string" ? chunk : JSON.stringify(chunk);
+				controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+			}
+			controller.close();
+		},
+	});
+}
+
+/**
+ * Wraps chunks in a server-sent events response, as the REST API streams them.
+ */
+export function sseResponse(chunks: unknown[]): Response {
+	return new Response(mockStream(chunks), {
+		status: 200,
+		headers: {
+			"Content-Type": "text/event-stream",
+			"Transfer-Encoding": "chunked",
+		},
+	});
+}
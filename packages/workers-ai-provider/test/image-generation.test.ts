@@ -0,0 +1,252 @@
+import { InvalidArgumentError } from "@ai-sdk/provider";
+import { experimental_generateImage as generateImage } from "ai";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { createWorkersAI } from "../src/index";
+
+const TEST_ACCOUNT_ID = "test-account-id";
+const TEST_API_KEY = "test-api-key";
+const FLUX_MODEL = "@cf/black-forest-labs/flux-1-schnell";
+const SDXL_MODEL = "@cf/stabilityai/stable-diffusion-xl-base-1.0";
+
+const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const server = setupServer();
+
+describe("REST API - Image Generation Tests", () => {
+	beforeAll(() => server.listen());
+	afterEach(() => server.resetHandlers());
+	afterAll(() => server.close());
+
+	it("should read binary images", async () => {
+		let capturedBody: any = null;
+
+		server.use(
+			http.post(
+				`https://api.cloudflare.com/client/v4/accounts/${TEST_ACCOUNT_ID}/ai/run/${SDXL_MODEL}`,
+				async ({ request }) => {
+					capturedBody = await request.json();
+					return new HttpResponse(png, { headers: { "Content-Type": "image/png" } });
+				},
+			),
+		);
+
+		const workersai = createWorkersAI({
+			apiKey: TEST_API_KEY,
+			accountId: TEST_ACCOUNT_ID,
+		});
+
+		const { image, warnings } = await generateImage({
+			model: workersai.image(SDXL_MODEL),
+			prompt: "A lighthouse",
+			size: "512x768",
+			seed: 42,
+			providerOptions: {
+				workersai: { negativePrompt: "fog", numSteps: 10, guidance: 7.5 },
+			},
+		});
+
+		expect(image.uint8Array).toEqual(png);
+		expect(warnings).toEqual([]);
+		expect(capturedBody).toEqual({
+			prompt: "A lighthouse",
+			seed: 42,
+			width: 512,
+			height: 768,
+			negative_prompt: "fog",
+			num_steps: 10,
+			guidance: 7.5,
+		});
+	});
+
+	it("should read base64 images and only send the inputs FLUX accepts", async () => {
+		let capturedBody: any = null;
+
+		server.use(
+			http.post(
+				`https://api.cloudflare.com/client/v4/accounts/${TEST_ACCOUNT_ID}/ai/run/${FLUX_MODEL}`,
+				async ({ request }) => {
+					capturedBody = await request.json();
+					return HttpResponse.json({ success: true, result: { image: "AQID" } });
+				},
+			),
+		);
+
+		const workersai = createWorkersAI({
+			apiKey: TEST_API_KEY,
+			accountId: TEST_ACCOUNT_ID,
+		});
+
+		const { image, warnings } = await generateImage({
+			model: workersai.image(FLUX_MODEL),
+			prompt: "A lighthouse",
+			size: "512x512",
+			seed: 42,
+			providerOptions: {
+				workersai: { numSteps: 4, negativePrompt: "fog" },
+			},
+		});
+
+		expect(image.uint8Array).toEqual(new Uint8Array([1, 2, 3]));
+		expect(capturedBody).toEqual({ prompt: "A lighthouse", steps: 4 });
+		expect(warnings).toEqual([
+			{
+				type: "unsupported-setting",
+				setting: "seed",
+				details: `${FLUX_MODEL} does not support seed.`,
+			},
+			{
+				type: "unsupported-setting",
+				setting: "size",
+				details: `${FLUX_MODEL} does not support size.`,
+			},
+			{
+				type: "other",
+				message: `${FLUX_MODEL} does not support the negativePrompt option.`,
+			},
+		]);
+	});
+});
+
+describe("Binding - Image Generation Tests", () => {
+	it("should send input images and masks as bytes for inpainting", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return png;
+				},
+			},
+		});
+
+		const { image } = await generateImage({
+			model: workersai.image("@cf/runwayml/stable-diffusion-v1-5-inpainting"),
+			prompt: "A red door",
+			providerOptions: {
+				workersai: {
+					image: "iVBORw0KGgo=",
+					mask: Array.from(png),
+					strength: 0.8,
+				},
+			},
+		});
+
+		expect(image.uint8Array).toEqual(png);
+		expect(capturedInputs).toEqual({
+			prompt: "A red door",
+			image: Array.from(png),
+			mask: Array.from(png),
+			strength: 0.8,
+		});
+	});
+
+	it("should throw when the model returns no image", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => ({}),
+			},
+		});
+
+		await expect(
+			generateImage({
+				model: workersai.image(FLUX_MODEL),
+				prompt: "A lighthouse",
+			}),
+		).rejects.toThrow(`${FLUX_MODEL} did not return an image.`);
+	});
+
+	it("should reject invalid provider options without calling the model", async () => {
+		let calls = 0;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					calls++;
+					return { image: "AQID" };
+				},
+			},
+		});
+
+		await expect(
+			generateImage({
+				model: workersai.image(SDXL_MODEL),
+				prompt: "A lighthouse",
+				providerOptions: { workersai: { strength: 2, numSteps: "many" } },
+			}),
+		).rejects.toSatisfy(InvalidArgumentError.isInstance);
+		expect(calls).toBe(0);
+	});
+
+	it("should convert aspect ratios to sizes within the limits of the model", async () => {
+		const capturedInputs: any[] = [];
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs.push(inputs);
+					return png;
+				},
+			},
+		});
+
+		for (const aspectRatio of ["1:1", "16:9", "10:1"] as const) {
+			await generateImage({
+				model: workersai.image(SDXL_MODEL),
+				prompt: "A lighthouse",
+				aspectRatio,
+			});
+		}
+
+		expect(capturedInputs).toMatchObject([
+			{ width: 1024, height: 1024 },
+			{ width: 1368, height: 768 },
+			{ width: 2048, height: 256 },
+		]);
+	});
+
+	it("should reject sizes that the model does not accept", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => png,
+			},
+		});
+
+		await expect(
+			generateImage({
+				model: workersai.image(SDXL_MODEL),
+				prompt: "A lighthouse",
+				size: "500x4096",
+			}),
+		).rejects.toThrow(
+			`${SDXL_MODEL} does not support the size 500x4096. Widths and heights must be multiples of 8 from 256 to 2048.`,
+		);
+	});
+
+	it("should take the images per call from the model and cap concurrent generations", async () => {
+		let running = 0;
+		let maxRunning = 0;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					running++;
+					maxRunning = Math.max(maxRunning, running);
+					await new Promise((resolve) => setTimeout(resolve, 5));
+					running--;
+					return { image: "AQID" };
+				},
+			},
+		});
+
+		const model = workersai.image(FLUX_MODEL);
+		const { images } = await generateImage({ model, prompt: "A lighthouse", n: 4 });
+
+		expect(model.maxImagesPerCall).toBe(4);
+		expect(workersai.image(SDXL_MODEL, { maxImagesPerCall: 1 }).maxImagesPerCall).toBe(1);
+		expect(images).toHaveLength(4);
+		expect(maxRunning).toBe(2);
+	});
+});
@@ -0,0 +1,341 @@
+import { InvalidArgumentError, UnsupportedFunctionalityError } from "@ai-sdk/provider";
+import { generateText, streamText } from "ai";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { convertToWorkersAIChatMessages } from "../src/convert-to-workersai-chat-messages";
+import { createWorkersAI } from "../src/index";
+
+const TEST_MODEL = "@cf/meta/llama-4-scout-17b-16e-instruct";
+const SINGLE_IMAGE_MODEL = "@cf/meta/llama-3.2-11b-vision-instruct";
+
+const before = new Uint8Array([1, 2, 3]);
+const after = new Uint8Array([4, 5, 6]);
+const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const server = setupServer(
+	http.get("https://images.example.com/screenshot.png", () => {
+		return new HttpResponse(png, { headers: { "Content-Type": "image/png" } });
+	}),
+	http.get("https://images.example.com/page.html", () => {
+		return new HttpResponse("<html></html>", { headers: { "Content-Type": "text/html" } });
+	}),
+	http.get("https://images.example.com/missing.png", () => {
+		return new HttpResponse(null, { status: 404 });
+	}),
+);
+
+describe("convertToWorkersAIChatMessages - images", () => {
+	it("should keep images in place next to their text", async () => {
+		const { messages, images } = await convertToWorkersAIChatMessages([
+			{ role: "system", content: "Compare the screenshots." },
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: "Before:" },
+					{ type: "image", image: before, mimeType: "image/png" },
+					{ type: "text", text: "After:" },
+					{ type: "image", image: after, mimeType: "image/jpeg" },
+				],
+			},
+		]);
+
+		expect(messages[1]).toEqual({
+			role: "user",
+			content: [
+				{ type: "text", text: "Before:" },
+				{ type: "image_url", image_url: { url: "data:image/png;base64,AQID" } },
+				{ type: "text", text: "After:" },
+				{ type: "image_url", image_url: { url: "data:image/jpeg;base64,BAUG" } },
+			],
+		});
+		expect(images).toEqual([
+			{ image: before, mimeType: "image/png", providerMetadata: undefined },
+			{ image: after, mimeType: "image/jpeg", providerMetadata: undefined },
+		]);
+	});
+
+	it("should keep text-only user messages as strings", async () => {
+		const { messages } = await convertToWorkersAIChatMessages([
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: "Hello" },
+					{ type: "text", text: "World" },
+				],
+			},
+		]);
+
+		expect(messages).toEqual([{ role: "user", content: "Hello\nWorld" }]);
+	});
+});
+
+describe("convertToWorkersAIChatMessages - image sources", () => {
+	beforeAll(() => server.listen());
+	afterEach(() => server.resetHandlers());
+	afterAll(() => server.close());
+
+	const convertImage = async (image: any, mimeType?: string) => {
+		const { messages, images } = await convertToWorkersAIChatMessages([
+			{ role: "user", content: [{ type: "image", image, mimeType }] },
+		]);
+		return { content: messages[0]!.content, image: images[0]! };
+	};
+
+	it("should download image URLs", async () => {
+		const { content, image } = await convertImage(
+			new URL("https://images.example.com/screenshot.png"),
+		);
+
+		expect(image.image).toEqual(png);
+		expect(image.mimeType).toBe("image/png");
+		expect(content).toEqual([
+			{ type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } },
+		]);
+	});
+
+	it("should decode data URLs and base64 strings", async () => {
+		const fromDataUrl = await convertImage("data:image/jpeg;base64,AQID");
+		expect(fromDataUrl.image).toMatchObject({ image: before, mimeType: "image/jpeg" });
+
+		const fromUrlObject = await convertImage(new URL("data:image/webp;base64,AQID"));
+		expect(fromUrlObject.image).toMatchObject({ image: before, mimeType: "image/webp" });
+
+		const fromBase64 = await convertImage("iVBORw0KGgo=");
+		expect(fromBase64.image).toMatchObject({ image: png, mimeType: "image/png" });
+	});
+
+	it("should reject URLs that do not serve an image", async () => {
+		await expect(
+			convertImage(new URL("https://images.example.com/page.html")),
+		).rejects.toSatisfy(InvalidArgumentError.isInstance);
+	});
+
+	it("should reject URLs that fail to download", async () => {
+		await expect(
+			convertImage(new URL("https://images.example.com/missing.png")),
+		).rejects.toThrowError(/404/);
+	});
+
+	it("should reject images over the size limit", async () => {
+		await expect(
+			convertToWorkersAIChatMessages(
+				[{ role: "user", content: [{ type: "image", image: png }] }],
+				{ maxImageSizeInBytes: 4 },
+			),
+		).rejects.toSatisfy(InvalidArgumentError.isInstance);
+	});
+
+	it("should stop downloads without a content length at the size limit", async () => {
+		let chunksSent = 0;
+		const body = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				chunksSent++;
+				controller.enqueue(png);
+			},
+		});
+
+		await expect(
+			convertToWorkersAIChatMessages(
+				[
+					{
+						role: "user",
+						content: [
+							{
+								type: "image",
+								image: new URL("https://images.example.com/large.png"),
+							},
+						],
+					},
+				],
+				{
+					maxImageSizeInBytes: 20,
+					fetch: async () =>
+						new Response(body, { headers: { "Content-Type": "image/png" } }),
+				},
+			),
+		).rejects.toThrowError("exceeds the limit of 20 bytes");
+		expect(chunksSent).toBeLessThan(10);
+	});
+
+	it("should download image URLs once when a stream is simulated", async () => {
+		let downloads = 0;
+		server.use(
+			http.get("https://images.example.com/cat.png", () => {
+				downloads++;
+				return new HttpResponse(png, { headers: { "Content-Type": "image/png" } });
+			}),
+		);
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => ({ response: "A cat." }),
+			},
+		});
+
+		const result = streamText({
+			model: workersai("@cf/llava-hf/llava-1.5-7b-hf"),
+			messages: [
+				{
+					role: "user",
+					content: [
+						{ type: "text", text: "What is this?" },
+						{ type: "image", image: new URL("https://images.example.com/cat.png") },
+					],
+				},
+			],
+		});
+
+		let text = "";
+		for await (const chunk of result.textStream) {
+			text += chunk;
+		}
+
+		expect(text).toBe("A cat.");
+		expect(downloads).toBe(1);
+	});
+
+	it("should download image URLs with the image fetch, not the fetch of the API", async () => {
+		const apiUrls: string[] = [];
+		const imageUrls: string[] = [];
+		const getUrl = (input: RequestInfo | URL) =>
+			String(input instanceof Request ? input.url : input);
+
+		const workersai = createWorkersAI({
+			accountId: "test-account-id",
+			apiKey: "test-api-key",
+			fetch: async (input) => {
+				apiUrls.push(getUrl(input));
+				return Response.json({ result: { response: "A cat." } });
+			},
+			imageFetch: async (input) => {
+				imageUrls.push(getUrl(input));
+				return new Response(png, { headers: { "Content-Type": "image/png" } });
+			},
+		});
+
+		const result = await generateText({
+			model: workersai(TEST_MODEL),
+			messages: [
+				{
+					role: "user",
+					content: [
+						{ type: "text", text: "What is this?" },
+						{ type: "image", image: new URL("https://internal.example.com/cat.png") },
+					],
+				},
+			],
+		});
+
+		expect(result.text).toBe("A cat.");
+		expect(imageUrls).toEqual(["https://internal.example.com/cat.png"]);
+		expect(apiUrls).toHaveLength(1);
+		expect(apiUrls[0]).toMatch(/^https:\/\/api\.cloudflare\.com\//);
+	});
+
+	it("should reject unsupported mime types", async () => {
+		await expect(convertImage(before, "image/tiff")).rejects.toSatisfy(
+			UnsupportedFunctionalityError.isInstance,
+		);
+	});
+});
+
+describe("Binding - Image Input Tests", () => {
+	it("should send images from several user turns in order", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return { response: "The button moved." };
+				},
+			},
+		});
+
+		const result = await generateText({
+			model: workersai(TEST_MODEL),
+			messages: [
+				{
+					role: "user",
+					content: [
+						{ type: "text", text: "Here is the page before the change." },
+						{ type: "image", image: before, mimeType: "image/png" },
+					],
+				},
+				{ role: "assistant", content: "Got it." },
+				{
+					role: "user",
+					content: [
+						{ type: "text", text: "And after. What changed?" },
+						{ type: "image", image: after, mimeType: "image/png" },
+					],
+				},
+			],
+		});
+
+		expect(result.text).toBe("The button moved.");
+		expect(capturedInputs.image).toBeUndefined();
+		expect(capturedInputs.messages[0].content[1]).toEqual({
+			type: "image_url",
+			image_url: { url: "data:image/png;base64,AQID" },
+		});
+		expect(capturedInputs.messages[2].content[1]).toEqual({
+			type: "image_url",
+			image_url: { url: "data:image/png;base64,BAUG" },
+		});
+	});
+
+	it("should send a single image through the image input for single-image models", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return { response: "A cat." };
+				},
+			},
+		});
+
+		await generateText({
+			model: workersai(SINGLE_IMAGE_MODEL),
+			messages: [
+				{
+					role: "user",
+					content: [
+						{ type: "text", text: "What is this?" },
+						{ type: "image", image: before, mimeType: "image/png" },
+					],
+				},
+			],
+		});
+
+		expect(capturedInputs.image).toEqual([1, 2, 3]);
+		expect(capturedInputs.messages).toEqual([{ role: "user", content: "What is this?\n" }]);
+	});
+
+	it("should throw UnsupportedFunctionalityError for several images on a single-image model", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => ({ response: "unreachable" }),
+			},
+		});
+
+		await expect(
+			generateText({
+				model: workersai(SINGLE_IMAGE_MODEL),
+				maxRetries: 0,
+				messages: [
+					{
+						role: "user",
+						content: [
+							{ type: "image", image: before, mimeType: "image/png" },
+							{ type: "image", image: after, mimeType: "image/png" },
+						],
+					},
+				],
+			}),
+		).rejects.toSatisfy(UnsupportedFunctionalityError.isInstance);
+	});
+});
@@ -0,0 +1,144 @@
+import { UnsupportedFunctionalityError } from "@ai-sdk/provider";
+import { generateObject, generateText, streamText } from "ai";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { createWorkersAI, getWorkersAIModelCapabilities } from "../src/index";
+
+const LEGACY_MODEL = "@cf/meta/llama-2-7b-chat-int8";
+
+const weatherTool = {
+	get_weather: {
+		description: "Get the weather in a location",
+		parameters: z.object({ location: z.string() }),
+	},
+};
+
+describe("getWorkersAIModelCapabilities", () => {
+	it("should return the capabilities of known models", () => {
+		expect(
+			getWorkersAIModelCapabilities("@cf/meta/llama-4-scout-17b-16e-instruct"),
+		).toMatchObject({
+			functionCalling: true,
+			jsonSchema: true,
+			vision: "multi-image",
+			contextWindow: 131000,
+		});
+		expect(getWorkersAIModelCapabilities(LEGACY_MODEL)).toMatchObject({
+			functionCalling: false,
+			jsonSchema: false,
+			vision: "none",
+		});
+	});
+
+	it("should assume unknown models support everything", () => {
+		const capabilities = getWorkersAIModelCapabilities("@cf/new/model");
+
+		expect(capabilities).toMatchObject({
+			functionCalling: true,
+			jsonSchema: true,
+			streaming: true,
+		});
+		expect(capabilities.contextWindow).toBeUndefined();
+	});
+});
+
+describe("Binding - Model Capability Checks", () => {
+	const workersai = createWorkersAI({
+		binding: {
+			run: async () => ({ response: "unreachable" }),
+		},
+	});
+
+	it("should expose image URL and structured output support", () => {
+		const visionModel = workersai("@cf/meta/llama-4-scout-17b-16e-instruct");
+		const legacyModel = workersai(LEGACY_MODEL);
+
+		expect(visionModel.supportsImageUrls).toBe(true);
+		expect(visionModel.supportsStructuredOutputs).toBe(true);
+		expect(legacyModel.supportsImageUrls).toBe(false);
+		expect(legacyModel.supportsStructuredOutputs).toBe(false);
+	});
+
+	it("should throw when tools are sent to a model without function calling", async () => {
+		await expect(
+			generateText({
+				model: workersai(LEGACY_MODEL),
+				prompt: "Get the weather in London",
+				tools: weatherTool,
+			}),
+		).rejects.toSatisfy(UnsupportedFunctionalityError.isInstance);
+	});
+
+	it("should throw when images are sent to a model without vision", async () => {
+		await expect(
+			generateText({
+				model: workersai(LEGACY_MODEL),
+				messages: [
+					{
+						role: "user",
+						content: [
+							{ type: "text", text: "What is this?" },
+							{
+								type: "image",
+								image: new Uint8Array([1, 2, 3]),
+								mimeType: "image/png",
+							},
+						],
+					},
+				],
+			}),
+		).rejects.toSatisfy(UnsupportedFunctionalityError.isInstance);
+	});
+
+	it("should warn and leave out the response format for models without JSON schema output", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return { response: '{"name":"Ada"}' };
+				},
+			},
+		});
+
+		const result = await generateObject({
+			model: workersai(LEGACY_MODEL),
+			schema: z.object({ name: z.string() }),
+			prompt: "Name a mathematician",
+		});
+
+		expect(result.object).toEqual({ name: "Ada" });
+		expect(result.warnings).toMatchObject([{ type: "other" }]);
+		expect(capturedInputs.response_format).toBeUndefined();
+		expect(capturedInputs.messages[0]).toMatchObject({ role: "system" });
+		expect(capturedInputs.messages[0].content).toContain("JSON schema");
+	});
+
+	it("should simulate streaming for models that cannot stream", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return { response: "safe" };
+				},
+			},
+		});
+
+		const result = streamText({
+			// @ts-expect-error llama guard is not in TextGenerationModels
+			model: workersai("@cf/meta/llama-guard-3-8b"),
+			prompt: "Is this message safe?",
+		});
+
+		let text = "";
+		for await (const chunk of result.textStream) {
+			text += chunk;
+		}
+
+		expect(text).toBe("safe");
+		expect(capturedInputs.stream).toBeUndefined();
+	});
+});
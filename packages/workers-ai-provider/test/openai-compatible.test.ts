@@ -0,0 +1,299 @@
+import { APICallError } from "@ai-sdk/provider";
+import {
+	embedMany,
+	experimental_generateImage,
+	generateObject,
+	generateText,
+	streamText,
+} from "ai";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { z } from "zod";
+import { createWorkersAI } from "../src/index";
+import { sseResponse } from "./fixtures";
+
+const BASE_URL = "http://localhost:11434/v1";
+const TEST_MODEL = "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
+const LOCAL_MODEL = "llama3.3:70b";
+
+const server = setupServer();
+
+const createLocalWorkersAI = () =>
+	createWorkersAI({
+		openAICompatible: {
+			baseURL: BASE_URL,
+			apiKey: "local-key",
+			models: { [TEST_MODEL]: LOCAL_MODEL },
+		},
+	});
+
+describe("OpenAI-compatible backend", () => {
+	beforeAll(() => server.listen());
+	afterEach(() => server.resetHandlers());
+	afterAll(() => server.close());
+
+	it("should generate text with the mapped model id", async () => {
+		let capturedBody: any = null;
+		let capturedAuthorization: string | null = null;
+
+		server.use(
+			http.post(`${BASE_URL}/chat/completions`, async ({ request }) => {
+				capturedBody = await request.json();
+				capturedAuthorization = request.headers.get("Authorization");
+				return HttpResponse.json({
+					choices: [
+						{
+							index: 0,
+							message: { role: "assistant", content: "Hello from llama.cpp" },
+							finish_reason: "length",
+						},
+					],
+					usage: { prompt_tokens: 5, completion_tokens: 4, total_tokens: 9 },
+				});
+			}),
+		);
+
+		const workersai = createLocalWorkersAI();
+		const result = await generateText({
+			model: workersai(TEST_MODEL),
+			prompt: "Say hello",
+			maxTokens: 16,
+		});
+
+		expect(result.text).toBe("Hello from llama.cpp");
+		expect(result.finishReason).toBe("length");
+		expect(result.usage).toMatchObject({ promptTokens: 5, completionTokens: 4 });
+		expect(capturedAuthorization).toBe("Bearer local-key");
+		expect(capturedBody).toMatchObject({
+			model: LOCAL_MODEL,
+			messages: [{ role: "user", content: "Say hello" }],
+			max_tokens: 16,
+		});
+	});
+
+	it("should stream text and tool calls", async () => {
+		let capturedBody: any = null;
+
+		server.use(
+			http.post(`${BASE_URL}/chat/completions`, async ({ request }) => {
+				capturedBody = await request.json();
+				return sseResponse([
+					{ choices: [{ index: 0, delta: { role: "assistant", content: "Checking" } }] },
+					{
+						choices: [
+							{
+								index: 0,
+								delta: {
+									tool_calls: [
+										{
+											index: 0,
+											id: "call_1",
+											type: "function",
+											function: {
+												name: "get_weather",
+												arguments: '{"city":',
+											},
+										},
+									],
+								},
+							},
+						],
+					},
+					{
+						choices: [
+							{
+								index: 0,
+								delta: {
+									tool_calls: [{ index: 0, function: { arguments: '"Paris"}' } }],
+								},
+								finish_reason: "tool_calls",
+							},
+						],
+					},
+					{ choices: [], usage: { prompt_tokens: 12, completion_tokens: 8 } },
+					"[DONE]",
+				]);
+			}),
+		);
+
+		const workersai = createLocalWorkersAI();
+		const result = streamText({
+			model: workersai(TEST_MODEL),
+			prompt: "What is the weather in Paris?",
+			tools: {
+				get_weather: {
+					description: "Get the weather in a city",
+					parameters: z.object({ city: z.string() }),
+				},
+			},
+		});
+
+		let text = "";
+		for await (const chunk of result.textStream) {
+			text += chunk;
+		}
+
+		expect(text).toBe("Checking");
+		expect(await result.toolCalls).toMatchObject([
+			{ toolCallId: "call_1", toolName: "get_weather", args: { city: "Paris" } },
+		]);
+		expect(await result.finishReason).toBe("tool-calls");
+		expect(await result.usage).toMatchObject({ promptTokens: 12, completionTokens: 8 });
+		expect(capturedBody).toMatchObject({
+			model: LOCAL_MODEL,
+			stream: true,
+			stream_options: { include_usage: true },
+			tools: [{ type: "function", function: { name: "get_weather" } }],
+		});
+	});
+
+	it("should send the JSON schema in the OpenAI response format", async () => {
+		let capturedBody: any = null;
+
+		server.use(
+			http.post(`${BASE_URL}/chat/completions`, async ({ request }) => {
+				capturedBody = await request.json();
+				return HttpResponse.json({
+					choices: [
+						{
+							index: 0,
+							message: { role: "assistant", content: '{"name":"Ada"}' },
+							finish_reason: "stop",
+						},
+					],
+				});
+			}),
+		);
+
+		const workersai = createLocalWorkersAI();
+		const { object } = await generateObject({
+			model: workersai(TEST_MODEL),
+			schema: z.object({ name: z.string() }),
+			prompt: "Name a mathematician",
+		});
+
+		expect(object).toEqual({ name: "Ada" });
+		expect(capturedBody.response_format).toMatchObject({
+			type: "json_schema",
+			json_schema: {
+				name: "response",
+				schema: { type: "object", properties: { name: { type: "string" } } },
+			},
+		});
+	});
+
+	it("should embed values", async () => {
+		let capturedBody: any = null;
+
+		server.use(
+			http.post(`${BASE_URL}/embeddings`, async ({ request }) => {
+				capturedBody = await request.json();
+				return HttpResponse.json({
+					data: [
+						{ index: 0, embedding: [0, 1] },
+						{ index: 1, embedding: [2, 3] },
+					],
+				});
+			}),
+		);
+
+		const workersai = createWorkersAI({
+			openAICompatible: {
+				baseURL: BASE_URL,
+				models: { "@cf/baai/bge-base-en-v1.5": "nomic-embed-text" },
+			},
+		});
+		const { embeddings } = await embedMany({
+			model: workersai.textEmbedding("@cf/baai/bge-base-en-v1.5"),
+			values: ["a", "b"],
+		});
+
+		expect(embeddings).toEqual([
+			[0, 1],
+			[2, 3],
+		]);
+		expect(capturedBody).toEqual({ model: "nomic-embed-text", input: ["a", "b"] });
+	});
+
+	it("should generate images", async () => {
+		let capturedBody: any = null;
+
+		server.use(
+			http.post(`${BASE_URL}/images/generations`, async ({ request }) => {
+				capturedBody = await request.json();
+				return HttpResponse.json({ data: [{ b64_json: "AQID" }] });
+			}),
+		);
+
+		const workersai = createLocalWorkersAI();
+		const { image } = await experimental_generateImage({
+			model: workersai.image("@cf/stabilityai/stable-diffusion-xl-base-1.0"),
+			prompt: "A lighthouse",
+			size: "512x512",
+		});
+
+		expect(image.uint8Array).toEqual(new Uint8Array([1, 2, 3]));
+		expect(capturedBody).toMatchObject({
+			model: "@cf/stabilityai/stable-diffusion-xl-base-1.0",
+			prompt: "A lighthouse",
+			size: "512x512",
+			response_format: "b64_json",
+		});
+	});
+
+	it("should send raw completion prompts to the completions endpoint", async () => {
+		let capturedBody: any = null;
+
+		server.use(
+			http.post(`${BASE_URL}/completions`, async ({ request }) => {
+				capturedBody = await request.json();
+				return sseResponse([
+					{ choices: [{ index: 0, text: "return a", finish_reason: null }] },
+					{ choices: [{ index: 0, text: " + b;", finish_reason: "stop" }] },
+					"[DONE]",
+				]);
+			}),
+		);
+
+		const workersai = createLocalWorkersAI();
+		const result = streamText({
+			model: workersai.completion(TEST_MODEL),
+			prompt: "function add(a, b) {\n",
+		});
+
+		let text = "";
+		for await (const chunk of result.textStream) {
+			text += chunk;
+		}
+
+		expect(text).toBe("return a + b;");
+		expect(capturedBody).toMatchObject({
+			model: LOCAL_MODEL,
+			prompt: "function add(a, b) {\n",
+			stream: true,
+		});
+		expect(capturedBody.raw).toBeUndefined();
+	});
+
+	it("should throw the server's error message", async () => {
+		server.use(
+			http.post(`${BASE_URL}/chat/completions`, () => {
+				return HttpResponse.json(
+					{ error: { message: "model 'llama3.3:70b' not found", type: "api_error" } },
+					{ status: 404 },
+				);
+			}),
+		);
+
+		const workersai = createLocalWorkersAI();
+		const error = await generateText({
+			model: workersai(TEST_MODEL),
+			prompt: "Say hello",
+		}).catch((error) => error);
+
+		expect(APICallError.isInstance(error)).toBe(true);
+		expect(error.message).toBe("model 'llama3.3:70b' not found");
+		expect(error.statusCode).toBe(404);
+	});
+});
@@ -0,0 +1,127 @@
+import { generateObject, generateText } from "ai";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { createWorkersAI } from "../src/index";
+import { createReasoningParser, splitReasoning } from "../src/split-reasoning";
+
+const REASONING_MODEL = "@cf/deepseek-ai/deepseek-r1-distill-qwen-32b";
+
+describe("splitReasoning", () => {
+	it("should split think tags from the answer", () => {
+		expect(splitReasoning("<think>Let me think.\n</think>\n\nThe answer.")).toEqual({
+			reasoning: "Let me think.",
+			text: "The answer.",
+		});
+	});
+
+	it("should leave responses without think tags unchanged", () => {
+		expect(splitReasoning(" Just an answer.")).toEqual({
+			reasoning: undefined,
+			text: " Just an answer.",
+		});
+	});
+
+	it("should treat text before a closing tag as reasoning when the response starts in reasoning", () => {
+		expect(splitReasoning("Thinking...</think>Done.", true)).toEqual({
+			reasoning: "Thinking...",
+			text: "Done.",
+		});
+		expect(splitReasoning("Done.", true)).toEqual({ reasoning: undefined, text: "Done." });
+	});
+
+	it("should drop an opening tag that a model starting in reasoning writes itself", () => {
+		expect(splitReasoning("<think>\nplan</think>\n\nanswer", true)).toEqual({
+			reasoning: "plan",
+			text: "answer",
+		});
+	});
+
+	it("should stream reasoning as it arrives, with or without an opening tag", () => {
+		const parser = createReasoningParser(true);
+
+		expect(parser.push("\nThinking")).toEqual([{ type: "reasoning", text: "Thinking" }]);
+		expect(parser.push(" more</")).toEqual([{ type: "reasoning", text: " more" }]);
+		expect(parser.push("think>Done.")).toEqual([{ type: "text", text: "Done." }]);
+
+		const taggedParser = createReasoningParser(true);
+
+		expect(taggedParser.push("<think>I am thinking")).toEqual([
+			{ type: "reasoning", text: "I am thinking" },
+		]);
+		expect(taggedParser.push(" more")).toEqual([{ type: "reasoning", text: " more" }]);
+
+		const reasoningParser = createReasoningParser(true);
+
+		expect(reasoningParser.push("<thi")).toEqual([]);
+		expect(reasoningParser.push("nk>Plan</think>\n\nDo")).toEqual([
+			{ type: "reasoning", text: "Plan" },
+			{ type: "text", text: "Do" },
+		]);
+		expect(reasoningParser.push("ne.")).toEqual([{ type: "text", text: "ne." }]);
+	});
+
+	it("should hold back text that could be the start of a tag", () => {
+		const parser = createReasoningParser();
+
+		expect(parser.push("1 <")).toEqual([{ type: "text", text: "1 " }]);
+		expect(parser.push(" 2")).toEqual([{ type: "text", text: "< 2" }]);
+		expect(parser.push("<thi")).toEqual([]);
+		expect(parser.flush()).toEqual([{ type: "text", text: "<thi" }]);
+	});
+});
+
+describe("Binding - Reasoning Tests", () => {
+	it("should return the reasoning separately from the text", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					return { response: "Two plus two is four.\n</think>\n\n4" };
+				},
+			},
+		});
+
+		const result = await generateText({
+			model: workersai(REASONING_MODEL),
+			prompt: "What is 2 + 2?",
+		});
+
+		expect(result.text).toBe("4");
+		expect(result.reasoning).toBe("Two plus two is four.");
+	});
+
+	it("should parse structured output after the reasoning", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					return { response: '<think>A famous one.</think>{"name":"Ada"}' };
+				},
+			},
+		});
+
+		const { object } = await generateObject({
+			model: workersai(REASONING_MODEL),
+			schema: z.object({ name: z.string() }),
+			prompt: "Name a mathematician",
+		});
+
+		expect(object).toEqual({ name: "Ada" });
+	});
+
+	it("should keep think tags in the text when reasoning extraction is off", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					return { response: "<think>Hmm</think>Hi" };
+				},
+			},
+		});
+
+		const result = await generateText({
+			model: workersai(REASONING_MODEL, { extractReasoning: false }),
+			prompt: "Hi",
+		});
+
+		expect(result.text).toBe("<think>Hmm</think>Hi");
+		expect(result.reasoning).toBeUndefined();
+	});
+});
@@ -0,0 +1,109 @@
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { createWorkersAI } from "../src/index";
+
+const TEST_ACCOUNT_ID = "test-account-id";
+const TEST_API_KEY = "test-api-key";
+const TEST_RERANKER_MODEL = "@cf/baai/bge-reranker-base";
+
+const documents = [
+	"Paris is the capital of France.",
+	"Berlin is the capital of Germany.",
+	"France is known for its cheese.",
+];
+
+const server = setupServer();
+
+describe("REST API - Reranker Tests", () => {
+	beforeAll(() => server.listen());
+	afterEach(() => server.resetHandlers());
+	afterAll(() => server.close());
+
+	it("should rank the documents with passthrough options", async () => {
+		let capturedBody: any = null;
+		let capturedOptions: Record<string, string> = {};
+
+		server.use(
+			http.post(
+				`https://api.cloudflare.com/client/v4/accounts/${TEST_ACCOUNT_ID}/ai/run/${TEST_RERANKER_MODEL}`,
+				async ({ request }) => {
+					capturedBody = await request.json();
+					capturedOptions = Object.fromEntries(
+						new URL(request.url).searchParams.entries(),
+					);
+					return HttpResponse.json({
+						result: {
+							response: [
+								{ id: 2, score: 0.2 },
+								{ id: 0, score: 0.9 },
+							],
+						},
+					});
+				},
+			),
+		);
+
+		const workersai = createWorkersAI({
+			apiKey: TEST_API_KEY,
+			accountId: TEST_ACCOUNT_ID,
+		});
+
+		const { ranking } = await workersai
+			.reranker(TEST_RERANKER_MODEL, { aString: "a" })
+			.doRerank({ query: "What is the capital of France?", documents, topK: 2 });
+
+		expect(capturedBody).toEqual({
+			query: "What is the capital of France?",
+			contexts: documents.map((text) => ({ text })),
+			top_k: 2,
+		});
+		expect(capturedOptions).toEqual({ aString: "a" });
+		expect(ranking).toEqual([
+			{ index: 0, relevanceScore: 0.9 },
+			{ index: 2, relevanceScore: 0.2 },
+		]);
+	});
+});
+
+describe("Binding - Reranker Tests", () => {
+	it("should use the default top-k and gateway", async () => {
+		let capturedInputs: any = null;
+		let capturedOptions: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any, options: any) => {
+					capturedInputs = inputs;
+					capturedOptions = options;
+					return { response: [{ id: 1, score: 0.5 }] };
+				},
+			},
+			gateway: { id: "my-gateway" },
+		});
+
+		const { ranking } = await workersai
+			.reranker(TEST_RERANKER_MODEL, { topK: 1 })
+			.doRerank({ query: "Where is Berlin?", documents });
+
+		expect(capturedInputs.top_k).toBe(1);
+		expect(capturedOptions.gateway).toEqual({ id: "my-gateway" });
+		expect(ranking).toEqual([{ index: 1, relevanceScore: 0.5 }]);
+	});
+
+	it("should not call the model without documents", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					throw new Error("should not be called");
+				},
+			},
+		});
+
+		const { ranking } = await workersai
+			.reranker(TEST_RERANKER_MODEL)
+			.doRerank({ query: "Where is Berlin?", documents: [] });
+
+		expect(ranking).toEqual([]);
+	});
+});
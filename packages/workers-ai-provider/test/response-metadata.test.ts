@@ -0,0 +1,189 @@
+import { embed, experimental_generateImage as generateImage, generateText, streamText } from "ai";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { createWorkersAI, getWorkersAIResponseMetadata } from "../src/index";
+
+const TEST_ACCOUNT_ID = "test-account-id";
+const TEST_API_KEY = "test-api-key";
+const TEST_MODEL = "@cf/meta/llama-3.1-8b-instruct";
+const EMBEDDING_MODEL = "@cf/baai/bge-base-en-v1.5";
+const IMAGE_MODEL = "@cf/black-forest-labs/flux-1-schnell";
+
+const runURL = (model: string) =>
+	`https://api.cloudflare.com/client/v4/accounts/${TEST_ACCOUNT_ID}/ai/run/${model}`;
+
+const responseHeaders = {
+	"cf-ray": "8f1e2d3c4b5a6978-LHR",
+	"cf-aig-log-id": "01JABCDEF",
+	"cf-aig-cache-status": "MISS",
+	"cf-ai-neurons": "12.5",
+};
+
+const metadata = {
+	requestId: "8f1e2d3c4b5a6978-LHR",
+	gatewayLogId: "01JABCDEF",
+	cacheStatus: "MISS",
+	neurons: 12.5,
+};
+
+const server = setupServer();
+
+describe("REST API - Response Metadata Tests", () => {
+	beforeAll(() => server.listen());
+	afterEach(() => server.resetHandlers());
+	afterAll(() => server.close());
+
+	// Created in each test, so that the provider uses the fetch that msw patches.
+	const createRESTWorkersAI = () =>
+		createWorkersAI({
+			apiKey: TEST_API_KEY,
+			accountId: TEST_ACCOUNT_ID,
+		});
+
+	it("should return the response metadata of chat calls", async () => {
+		server.use(
+			http.post(runURL(TEST_MODEL), () =>
+				HttpResponse.json(
+					{
+						result: {
+							response: "Hello",
+							usage: { prompt_tokens: 3, completion_tokens: 1 },
+						},
+					},
+					{ headers: responseHeaders },
+				),
+			),
+		);
+
+		const workersai = createRESTWorkersAI();
+		const result = await generateText({
+			model: workersai(TEST_MODEL),
+			prompt: "Hi",
+		});
+
+		expect(result.providerMetadata).toEqual({ workersai: metadata });
+		expect(result.response).toMatchObject({
+			id: metadata.requestId,
+			modelId: TEST_MODEL,
+			headers: expect.objectContaining(responseHeaders),
+		});
+		expect(result.usage).toMatchObject({ promptTokens: 3, completionTokens: 1 });
+	});
+
+	it("should prefer the Workers AI request id over the ray id, like errors", async () => {
+		server.use(
+			http.post(runURL(TEST_MODEL), () =>
+				HttpResponse.json(
+					{ result: { response: "Hello" } },
+					{ headers: { ...responseHeaders, "cf-ai-req-id": "3a1b2c3d-request" } },
+				),
+			),
+		);
+
+		const workersai = createRESTWorkersAI();
+		const result = await generateText({
+			model: workersai(TEST_MODEL),
+			prompt: "Hi",
+		});
+
+		expect(result.providerMetadata?.workersai).toMatchObject({
+			requestId: "3a1b2c3d-request",
+		});
+		expect(result.response.id).toBe("3a1b2c3d-request");
+	});
+
+	it("should mark missing usage as unknown", async () => {
+		server.use(
+			http.post(runURL(TEST_MODEL), () =>
+				HttpResponse.json({ result: { response: "Hello" } }),
+			),
+		);
+
+		const workersai = createRESTWorkersAI();
+		const result = await generateText({
+			model: workersai(TEST_MODEL),
+			prompt: "Hi",
+		});
+
+		expect(result.usage.promptTokens).toBeNaN();
+		expect(result.usage.completionTokens).toBeNaN();
+		expect(result.providerMetadata).toEqual({ workersai: {} });
+	});
+
+	it("should return the response metadata of streamed chat calls", async () => {
+		server.use(
+			http.post(
+				runURL(TEST_MODEL),
+				() =>
+					new HttpResponse('data: {"response":"Hello"}\n\ndata: [DONE]\n\n', {
+						headers: { "Content-Type": "text/event-stream", ...responseHeaders },
+					}),
+			),
+		);
+
+		const workersai = createRESTWorkersAI();
+		const result = streamText({
+			model: workersai(TEST_MODEL),
+			prompt: "Hi",
+		});
+
+		let text = "";
+		for await (const chunk of result.textStream) {
+			text += chunk;
+		}
+
+		expect(text).toBe("Hello");
+		expect(await result.providerMetadata).toEqual({ workersai: metadata });
+		expect((await result.response).id).toBe(metadata.requestId);
+		expect((await result.usage).promptTokens).toBeNaN();
+	});
+
+	it("should return the response headers of embedding and image calls", async () => {
+		server.use(
+			http.post(runURL(EMBEDDING_MODEL), () =>
+				HttpResponse.json(
+					{ result: { shape: [1, 2], data: [[0.1, 0.2]] } },
+					{ headers: responseHeaders },
+				),
+			),
+			http.post(runURL(IMAGE_MODEL), () =>
+				HttpResponse.json({ result: { image: "AQID" } }, { headers: responseHeaders }),
+			),
+		);
+
+		const workersai = createRESTWorkersAI();
+		const { rawResponse } = await embed({
+			model: workersai.textEmbedding(EMBEDDING_MODEL),
+			value: "Hello",
+		});
+		const { responses } = await generateImage({
+			model: workersai.image(IMAGE_MODEL),
+			prompt: "A lighthouse",
+		});
+
+		expect(getWorkersAIResponseMetadata(rawResponse?.headers)).toEqual(metadata);
+		expect(getWorkersAIResponseMetadata(responses[0]?.headers)).toEqual(metadata);
+	});
+});
+
+describe("Binding - Response Metadata Tests", () => {
+	it("should return the AI Gateway log id of the binding", async () => {
+		const binding = {
+			aiGatewayLogId: null as string | null,
+			run: async () => {
+				binding.aiGatewayLogId = "01JGATEWAY";
+				return { response: "Hello" };
+			},
+		};
+
+		const workersai = createWorkersAI({ binding, gateway: { id: "my-gateway" } });
+
+		const result = await generateText({
+			model: workersai(TEST_MODEL),
+			prompt: "Hi",
+		});
+
+		expect(result.providerMetadata).toEqual({ workersai: { gatewayLogId: "01JGATEWAY" } });
+	});
+});
@@ -0,0 +1,127 @@
+import { UnsupportedFunctionalityError } from "@ai-sdk/provider";
+import { experimental_generateSpeech as generateSpeech } from "ai";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { createWorkersAI } from "../src/index";
+
+const TEST_ACCOUNT_ID = "test-account-id";
+const TEST_API_KEY = "test-api-key";
+const AURA_MODEL = "@cf/deepgram/aura-1";
+
+const mp3 = new Uint8Array([0x49, 0x44, 0x33, 0x04]);
+
+const server = setupServer();
+
+describe("REST API - Speech Tests", () => {
+	beforeAll(() => server.listen());
+	afterEach(() => server.resetHandlers());
+	afterAll(() => server.close());
+
+	it("should read binary audio and send the voice to Aura models", async () => {
+		let capturedBody: any = null;
+
+		server.use(
+			http.post(
+				`https://api.cloudflare.com/client/v4/accounts/${TEST_ACCOUNT_ID}/ai/run/${AURA_MODEL}`,
+				async ({ request }) => {
+					capturedBody = await request.json();
+					return new HttpResponse(mp3, { headers: { "Content-Type": "audio/mpeg" } });
+				},
+			),
+		);
+
+		const workersai = createWorkersAI({
+			apiKey: TEST_API_KEY,
+			accountId: TEST_ACCOUNT_ID,
+		});
+
+		const result = await generateSpeech({
+			// @ts-expect-error aura is not in SpeechModels
+			model: workersai.speech(AURA_MODEL),
+			text: "Hello",
+			voice: "asteria",
+			outputFormat: "mp3",
+		});
+
+		expect(capturedBody).toEqual({ text: "Hello", speaker: "asteria", encoding: "mp3" });
+		expect(result.audio.uint8Array).toEqual(mp3);
+		expect(result.warnings).toEqual([]);
+	});
+});
+
+describe("Binding - Speech Tests", () => {
+	it("should decode the base64 audio of MeloTTS", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return { audio: "SUQzBA==" };
+				},
+			},
+		});
+
+		const result = await generateSpeech({
+			model: workersai.speech("@cf/myshell-ai/melotts", { language: "fr" }),
+			text: "Bonjour",
+		});
+
+		expect(capturedInputs).toEqual({ prompt: "Bonjour", lang: "fr" });
+		expect(result.audio.uint8Array).toEqual(mp3);
+	});
+
+	it("should read streamed audio and warn about unsupported options", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () =>
+					new ReadableStream<Uint8Array>({
+						start(controller) {
+							controller.enqueue(mp3);
+							controller.close();
+						},
+					}),
+			},
+		});
+
+		const result = await generateSpeech({
+			model: workersai.speech("@cf/myshell-ai/melotts"),
+			text: "Hello",
+			voice: "alloy",
+			outputFormat: "wav",
+			speed: 1.5,
+		});
+
+		expect(result.audio.uint8Array).toEqual(mp3);
+		expect(result.warnings).toMatchObject([
+			{ type: "unsupported-setting", setting: "speed" },
+			{ type: "unsupported-setting", setting: "voice" },
+			{ type: "unsupported-setting", setting: "outputFormat" },
+		]);
+	});
+});
+
+describe("OpenAI-compatible backend - Speech Tests", () => {
+	it("should throw UnsupportedFunctionalityError without calling the server", async () => {
+		let requests = 0;
+
+		const workersai = createWorkersAI({
+			openAICompatible: {
+				baseURL: "http://localhost:11434/v1",
+				fetch: async () => {
+					requests++;
+					return Response.json({ data: [{ b64_json: "SUQzBA==" }] });
+				},
+			},
+		});
+
+		await expect(
+			generateSpeech({
+				model: workersai.speech("@cf/myshell-ai/melotts"),
+				text: "Hello",
+			}),
+		).rejects.toSatisfy(UnsupportedFunctionalityError.isInstance);
+		expect(requests).toBe(0);
+	});
+});
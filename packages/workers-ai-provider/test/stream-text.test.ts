@@ -1,10 +1,10 @@
-import { TextEncoder } from "node:util";
 import { streamText } from "ai";
-import { http, HttpResponse, type DefaultBodyType } from "msw";
+import { http, type DefaultBodyType } from "msw";
 import { setupServer } from "msw/node";
 import z from "zod";
 import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
 import { createWorkersAI } from "../src/index";
+import { mockStream, sseResponse } from "./fixtures";
 
 const TEST_ACCOUNT_ID = "test-account-id";
 const TEST_API_KEY = "test-api-key";
@@ -157,10 +157,10 @@ describe("REST API - Streaming Text Tests", () => {
 		server.use(
 			http.post(
 				`https://api.cloudflare.com/client/v4/accounts/${TEST_ACCOUNT_ID}/ai/run/${TEST_MODEL}`,
-				// `doStream` calls `doGenerate` underneath when the last message is from the user
+				// tool calls are streamed even when the last message is from the user
 				async () => {
-					return HttpResponse.json({
-						result: {
+					return sseResponse([
+						{
 							response: null,
 							tool_calls: [
 								{
@@ -176,7 +176,8 @@ describe("REST API - Streaming Text Tests", () => {
 								total_tokens: 191,
 							},
 						},
-					});
+						"[DONE]",
+					]);
 				},
 			),
 		);
@@ -215,7 +216,7 @@ describe("REST API - Streaming Text Tests", () => {
 		expect(toolCalls).toMatchObject([
 			{
 				type: "tool-call",
-				toolCallId: "get_weather",
+				toolCallId: expect.any(String),
 				toolName: "get_weather",
 				args: { location: "London" },
 			},
@@ -226,10 +227,10 @@ describe("REST API - Streaming Text Tests", () => {
 		server.use(
 			http.post(
 				`https://api.cloudflare.com/client/v4/accounts/${TEST_ACCOUNT_ID}/ai/run/${TEST_MODEL}`,
-				// `doStream` calls `doGenerate` underneath when the last message is from the user
+				// tool calls are streamed even when the last message is from the user
 				async () => {
-					return HttpResponse.json({
-						result: {
+					return sseResponse([
+						{
 							tool_calls: [
 								{
 									id: "chatcmpl-tool-b482f0e36b0c4190b9bee3fb61408a9e",
@@ -246,7 +247,8 @@ describe("REST API - Streaming Text Tests", () => {
 								total_tokens: 196,
 							},
 						},
-					});
+						"[DONE]",
+					]);
 				},
 			),
 		);
@@ -361,22 +363,25 @@ describe("Binding - Streaming Text Tests", () => {
 		const workersai = createWorkersAI({
 			binding: {
 				run: async (modelName: string, inputs: any, options?: any) => {
-					return {
-						response: null,
-						tool_calls: [
-							{
-								name: "get_weather",
-								arguments: {
-									location: "London",
+					return mockStream([
+						{
+							response: null,
+							tool_calls: [
+								{
+									name: "get_weather",
+									arguments: {
+										location: "London",
+									},
 								},
+							],
+							usage: {
+								prompt_tokens: 168,
+								completion_tokens: 23,
+								total_tokens: 191,
 							},
-						],
-						usage: {
-							prompt_tokens: 168,
-							completion_tokens: 23,
-							total_tokens: 191,
 						},
-					};
+						"[DONE]",
+					]);
 				},
 			},
 		});
@@ -410,7 +415,7 @@ describe("Binding - Streaming Text Tests", () => {
 		expect(toolCalls).toMatchObject([
 			{
 				type: "tool-call",
-				toolCallId: "get_weather",
+				toolCallId: expect.any(String),
 				toolName: "get_weather",
 				args: { location: "London" },
 			},
@@ -421,32 +426,35 @@ describe("Binding - Streaming Text Tests", () => {
 		const workersai = createWorkersAI({
 			binding: {
 				run: async () => {
-					return {
-						tool_calls: [
-							{
-								id: "chatcmpl-tool-b482f0e36b0c4190b9bee3fb61408a9e",
-								type: "function",
-								function: {
-									name: "get_weather",
-									arguments: '{"location": "London"}',
+					return mockStream([
+						{
+							tool_calls: [
+								{
+									id: "chatcmpl-tool-b482f0e36b0c4190b9bee3fb61408a9e",
+									type: "function",
+									function: {
+										name: "get_weather",
+										arguments: '{"location": "London"}',
+									},
 								},
-							},
 
-							{
-								id: "chatcmpl-tool-a482f0e36b0c4190b9bee3fb61408a9c",
-								type: "function",
-								function: {
-									name: "get_temperature",
-									arguments: '{"location": "London"}',
+								{
+									id: "chatcmpl-tool-a482f0e36b0c4190b9bee3fb61408a9c",
+									type: "function",
+									function: {
+										name: "get_temperature",
+										arguments: '{"location": "London"}',
+									},
 								},
+							],
+							usage: {
+								prompt_tokens: 179,
+								completion_tokens: 17,
+								total_tokens: 196,
 							},
-						],
-						usage: {
-							prompt_tokens: 179,
-							completion_tokens: 17,
-							total_tokens: 196,
 						},
-					};
+						"[DONE]",
+					]);
 				},
 			},
 		});
@@ -500,29 +508,400 @@ describe("Binding - Streaming Text Tests", () => {
 			args: { location: "London" },
 		});
 	});
-});
 
-/**
- * Helper to produce SSE lines in a Node ReadableStream.
- * This is the crucial part: each line is preceded by "data: ",
- * followed by JSON or [DONE], then a newline+newline.
- */
-function mockStream(sseLines: any[]): ReadableStream<Uint8Array> {
-	const encoder = new TextEncoder();
-	return new ReadableStream<Uint8Array>({
-		start(controller) {
-			for (const line of sseLines) {
-				// Typically "line" is either an object or "[DONE]"
-				if (typeof line === "string") {
-					// e.g. the [DONE] marker
-					controller.enqueue(encoder.encode(`data: ${line}\n\n`));
-				} else {
-					// Convert JS object (e.g. { response: "Hello " }) to JSON
-					const jsonText = JSON.stringify(line);
-					controller.enqueue(encoder.encode(`data: ${jsonText}\n\n`));
-				}
+	it("should map the finish reason from the stream", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					return mockStream([
+						{ response: "Hello, this is a trunc" },
+						{ response: "", finish_reason: "length" },
+						"[DONE]",
+					]);
+				},
+			},
+		});
+
+		const result = streamText({
+			model: workersai(TEST_MODEL),
+			prompt: "Write a long greeting",
+		});
+
+		let text = "";
+		for await (const chunk of result.textStream) {
+			text += chunk;
+		}
+
+		expect(text).toBe("Hello, this is a trunc");
+		expect(await result.finishReason).toBe("length");
+	});
+
+	it("should map the finish reason from OpenAI-style stream chunks", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					return mockStream([
+						{ response: "Hello" },
+						{ choices: [{ index: 0, delta: {}, finish_reason: "stop" }] },
+						"[DONE]",
+					]);
+				},
+			},
+		});
+
+		const result = streamText({
+			model: workersai(TEST_MODEL),
+			prompt: "Write a greeting",
+		});
+
+		await result.consumeStream();
+
+		expect(await result.finishReason).toBe("stop");
+	});
+
+	it("should report tool-calls when the stream contains tool calls", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					return mockStream([
+						{
+							tool_calls: [
+								{
+									index: 0,
+									id: "call_1",
+									type: "function",
+									function: { name: "get_weather", arguments: '{"location":' },
+								},
+							],
+						},
+						{ tool_calls: [{ index: 0, function: { arguments: '"London"}' } }] },
+						"[DONE]",
+					]);
+				},
+			},
+		});
+
+		const result = streamText({
+			model: workersai(TEST_MODEL),
+			messages: [
+				{ role: "user", content: "Get the weather in London" },
+				{ role: "assistant", content: "Let me check." },
+			],
+			tools: {
+				get_weather: {
+					description: "Get the weather in a location",
+					parameters: z.object({ location: z.string() }),
+				},
+			},
+		});
+
+		await result.consumeStream();
+
+		expect(await result.toolCalls).toMatchObject([
+			{ toolCallId: "call_1", toolName: "get_weather", args: { location: "London" } },
+		]);
+		expect(await result.finishReason).toBe("tool-calls");
+	});
+
+	it("should stream tool call arguments as tool-call-delta parts", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					return mockStream([
+						{
+							tool_calls: [
+								{
+									index: 0,
+									id: "call_1",
+									type: "function",
+									function: { name: "get_weather", arguments: '{"location":' },
+								},
+							],
+						},
+						{
+							tool_calls: [
+								{
+									index: 1,
+									id: "call_2",
+									type: "function",
+									function: {
+										name: "get_temperature",
+										arguments: '{"location":',
+									},
+								},
+							],
+						},
+						{ tool_calls: [{ index: 0, function: { arguments: '"London"}' } }] },
+						{ tool_calls: [{ index: 1, function: { arguments: '"Paris"}' } }] },
+						"[DONE]",
+					]);
+				},
+			},
+		});
+
+		const result = streamText({
+			model: workersai(TEST_MODEL),
+			messages: [
+				{ role: "user", content: "Get the weather in London and the temperature in Paris" },
+				{ role: "assistant", content: "Let me check." },
+			],
+			toolCallStreaming: true,
+			tools: {
+				get_weather: {
+					description: "Get the weather in a location",
+					parameters: z.object({ location: z.string() }),
+				},
+				get_temperature: {
+					description: "Get the temperature in a location",
+					parameters: z.object({ location: z.string() }),
+				},
+			},
+		});
+
+		const parts: any[] = [];
+		for await (const part of result.fullStream) {
+			if (part.type === "tool-call-delta" || part.type === "tool-call") {
+				parts.push(part);
 			}
-			controller.close();
-		},
+		}
+
+		expect(parts).toMatchObject([
+			{ type: "tool-call-delta", toolCallId: "call_1", argsTextDelta: '{"location":' },
+			{ type: "tool-call-delta", toolCallId: "call_2", argsTextDelta: '{"location":' },
+			{ type: "tool-call-delta", toolCallId: "call_1", argsTextDelta: '"London"}' },
+			{ type: "tool-call-delta", toolCallId: "call_2", argsTextDelta: '"Paris"}' },
+			{ type: "tool-call", toolCallId: "call_1", args: { location: "London" } },
+			{ type: "tool-call", toolCallId: "call_2", args: { location: "Paris" } },
+		]);
+	});
+
+	it("should stream native Workers AI tool calls", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					return mockStream([
+						{
+							response: "",
+							tool_calls: [
+								{ name: "get_weather", arguments: { location: "London" } },
+							],
+						},
+						"[DONE]",
+					]);
+				},
+			},
+		});
+
+		const result = streamText({
+			model: workersai(TEST_MODEL),
+			messages: [
+				{ role: "user", content: "Get the weather in London" },
+				{ role: "assistant", content: "Let me check." },
+			],
+			toolCallStreaming: true,
+			tools: {
+				get_weather: {
+					description: "Get the weather in a location",
+					parameters: z.object({ location: z.string() }),
+				},
+			},
+		});
+
+		const parts: any[] = [];
+		for await (const part of result.fullStream) {
+			if (part.type === "tool-call-delta" || part.type === "tool-call") {
+				parts.push(part);
+			}
+		}
+
+		expect(parts).toMatchObject([
+			{
+				type: "tool-call-delta",
+				toolName: "get_weather",
+				argsTextDelta: '{"location":"London"}',
+			},
+			{ type: "tool-call", args: { location: "London" } },
+		]);
+		// Calls without an upstream id get a generated one, shared by the delta and the call.
+		expect(parts[0].toolCallId).not.toBe("get_weather");
+		expect(parts[1].toolCallId).toBe(parts[0].toolCallId);
+	});
+
+	it("should fall back to a simulated stream for models that cannot stream tool calls", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return {
+						tool_calls: [{ name: "get_weather", arguments: { location: "London" } }],
+					};
+				},
+			},
+		});
+
+		const result = streamText({
+			model: workersai("@hf/nousresearch/hermes-2-pro-mistral-7b"),
+			prompt: "Get the weather information for London",
+			tools: {
+				get_weather: {
+					description: "Get the weather in a location",
+					parameters: z.object({ location: z.string() }),
+				},
+			},
+		});
+
+		await result.consumeStream();
+
+		expect(capturedInputs.stream).toBeUndefined();
+		expect(await result.toolCalls).toMatchObject([
+			{
+				toolCallId: expect.any(String),
+				toolName: "get_weather",
+				args: { location: "London" },
+			},
+		]);
+	});
+
+	it("should stream text and tool calls live when tools are set on a user turn", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return mockStream([
+						{ response: "Let me check the weather." },
+						{
+							tool_calls: [
+								{
+									index: 0,
+									id: "call_1",
+									type: "function",
+									function: {
+										name: "get_weather",
+										arguments: '{"location":"London"}',
+									},
+								},
+							],
+						},
+						"[DONE]",
+					]);
+				},
+			},
+		});
+
+		const result = streamText({
+			model: workersai(TEST_MODEL),
+			prompt: "Get the weather information for London",
+			tools: {
+				get_weather: {
+					description: "Get the weather in a location",
+					parameters: z.object({ location: z.string() }),
+				},
+			},
+		});
+
+		let text = "";
+		for await (const chunk of result.textStream) {
+			text += chunk;
+		}
+
+		expect(capturedInputs.stream).toBe(true);
+		expect(text).toBe("Let me check the weather.");
+		expect(await result.toolCalls).toMatchObject([
+			{ toolCallId: "call_1", toolName: "get_weather", args: { location: "London" } },
+		]);
+	});
+
+	it("should stream reasoning parts, even when the think tags are split across chunks", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					return mockStream([
+						{ response: "<thi" },
+						{ response: "nk>The user says hi" },
+						{ response: ".</th" },
+						{ response: "ink>\n\nHello" },
+						{ response: "!" },
+						"[DONE]",
+					]);
+				},
+			},
+		});
+
+		const result = streamText({
+			model: workersai(TEST_MODEL),
+			prompt: "Hi",
+		});
+
+		const parts: Array<{ type: string; textDelta: string }> = [];
+		for await (const part of result.fullStream) {
+			if (part.type === "reasoning" || part.type === "text-delta") {
+				parts.push(part);
+			}
+		}
+
+		expect(parts).toEqual([
+			{ type: "reasoning", textDelta: "The user says hi" },
+			{ type: "reasoning", textDelta: "." },
+			{ type: "text-delta", textDelta: "Hello" },
+			{ type: "text-delta", textDelta: "!" },
+		]);
 	});
-}
+
+	it("should stream reasoning of models that omit the opening think tag", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					return mockStream([
+						{ response: "Two plus two" },
+						{ response: " is four.</think>" },
+						{ response: "4" },
+						"[DONE]",
+					]);
+				},
+			},
+		});
+
+		const result = streamText({
+			model: workersai("@cf/deepseek-ai/deepseek-r1-distill-qwen-32b"),
+			prompt: "What is 2 + 2?",
+		});
+
+		let text = "";
+		for await (const chunk of result.textStream) {
+			text += chunk;
+		}
+
+		expect(text).toBe("4");
+		expect(await result.reasoning).toBe("Two plus two is four.");
+	});
+
+	it("should stream think tags as text when reasoning extraction is off", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					return mockStream([
+						{ response: "<think>Hmm</think>" },
+						{ response: "Hi" },
+						"[DONE]",
+					]);
+				},
+			},
+		});
+
+		const result = streamText({
+			model: workersai(TEST_MODEL, { extractReasoning: false }),
+			prompt: "Hi",
+		});
+
+		let text = "";
+		for await (const chunk of result.textStream) {
+			text += chunk;
+		}
+
+		expect(text).toBe("<think>Hmm</think>Hi");
+	});
+});
@@ -1,7 +1,9 @@
-import { generateText } from "ai";
+import { APICallError } from "@ai-sdk/provider";
+import { generateText, streamText } from "ai";
 import { http, HttpResponse } from "msw";
 import { setupServer } from "msw/node";
 import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { z } from "zod";
 import { createWorkersAI } from "../src/index";
 
 const TEST_ACCOUNT_ID = "test-account-id";
@@ -102,6 +104,214 @@ describe("REST API - Text Generation Tests", () => {
 			"Value for option 'isNull' is not able to be coerced into a string.",
 		);
 	});
+
+	it("should throw a typed, non-retryable APICallError for client errors", async () => {
+		server.use(
+			http.post(
+				`https://api.cloudflare.com/client/v4/accounts/${TEST_ACCOUNT_ID}/ai/run/${TEST_MODEL}`,
+				async () => {
+					return HttpResponse.json(
+						{
+							success: false,
+							errors: [{ code: 10000, message: "Authentication error" }],
+							messages: [],
+							result: null,
+						},
+						{ status: 401, headers: { "cf-ray": "8f1e2d3c4b5a6978-LHR" } },
+					);
+				},
+			),
+		);
+
+		const workersai = createWorkersAI({
+			apiKey: TEST_API_KEY,
+			accountId: TEST_ACCOUNT_ID,
+		});
+
+		const error = await generateText({
+			model: workersai(TEST_MODEL),
+			prompt: "Write a greeting",
+		}).catch((error) => error);
+
+		expect(APICallError.isInstance(error)).toBe(true);
+		expect(error.statusCode).toBe(401);
+		expect(error.isRetryable).toBe(false);
+		expect(error.message).toBe("Authentication error (request id: 8f1e2d3c4b5a6978-LHR)");
+		expect(error.data.requestId).toBe("8f1e2d3c4b5a6978-LHR");
+		expect(JSON.parse(error.responseBody).errors[0].code).toBe(10000);
+	});
+
+	it("should retry rate limited requests", async () => {
+		let attempts = 0;
+
+		server.use(
+			http.post(
+				`https://api.cloudflare.com/client/v4/accounts/${TEST_ACCOUNT_ID}/ai/run/${TEST_MODEL}`,
+				async () => {
+					attempts++;
+					if (attempts === 1) {
+						return HttpResponse.json(
+							{
+								success: false,
+								errors: [{ code: 3040, message: "Capacity temporarily exceeded" }],
+							},
+							{ status: 429 },
+						);
+					}
+					return HttpResponse.json({ result: { response: "Hello" } });
+				},
+			),
+		);
+
+		const workersai = createWorkersAI({
+			apiKey: TEST_API_KEY,
+			accountId: TEST_ACCOUNT_ID,
+		});
+
+		const result = await generateText({
+			model: workersai(TEST_MODEL),
+			prompt: "Write a greeting",
+			maxRetries: 1,
+		});
+
+		expect(result.text).toBe("Hello");
+		expect(attempts).toBe(2);
+	});
+
+	it("should throw a retryable APICallError for server errors when streaming", async () => {
+		server.use(
+			http.post(
+				`https://api.cloudflare.com/client/v4/accounts/${TEST_ACCOUNT_ID}/ai/run/${TEST_MODEL}`,
+				async () => {
+					return new HttpResponse("upstream connect error", {
+						status: 503,
+						statusText: "Service Unavailable",
+					});
+				},
+			),
+		);
+
+		const workersai = createWorkersAI({
+			apiKey: TEST_API_KEY,
+			accountId: TEST_ACCOUNT_ID,
+		});
+
+		const result = streamText({
+			model: workersai(TEST_MODEL),
+			prompt: "Write a greeting",
+			maxRetries: 0,
+		});
+
+		const errors: unknown[] = [];
+		for await (const part of result.fullStream) {
+			if (part.type === "error") {
+				errors.push(part.error);
+			}
+		}
+
+		expect(errors).toHaveLength(1);
+		expect(errors[0]).toMatchObject({
+			statusCode: 503,
+			isRetryable: true,
+			message: "Service Unavailable",
+			responseBody: "upstream connect error",
+		});
+	});
+
+	it("should use a custom fetch, base URL and headers", async () => {
+		let capturedUrl: string | undefined;
+		let capturedHeaders: Record<string, string> | undefined;
+
+		const workersai = createWorkersAI({
+			apiKey: TEST_API_KEY,
+			accountId: TEST_ACCOUNT_ID,
+			baseURL: "https://proxy.example.com/ai/run/",
+			headers: { "x-team": "qa" },
+			fetch: async (url, init) => {
+				capturedUrl = url.toString();
+				capturedHeaders = init?.headers as Record<string, string>;
+				return Response.json({ result: { response: "Hello" } });
+			},
+		});
+
+		const result = await generateText({
+			model: workersai(TEST_MODEL),
+			prompt: "Write a greeting",
+			headers: { "x-request-source": "test" },
+		});
+
+		expect(result.text).toBe("Hello");
+		expect(capturedUrl).toBe(`https://proxy.example.com/ai/run/${TEST_MODEL}`);
+		expect(capturedHeaders).toMatchObject({
+			Authorization: `Bearer ${TEST_API_KEY}`,
+			"x-team": "qa",
+			"x-request-source": "test",
+		});
+	});
+
+	it("should send the LoRA adapter in the body, not the query string", async () => {
+		let capturedUrl: string | undefined;
+		let capturedBody: any = null;
+
+		const workersai = createWorkersAI({
+			apiKey: TEST_API_KEY,
+			accountId: TEST_ACCOUNT_ID,
+			fetch: async (url, init) => {
+				capturedUrl = url.toString();
+				capturedBody = JSON.parse(init?.body as string);
+				return Response.json({ result: { response: "Bonjour" } });
+			},
+		});
+
+		const result = await generateText({
+			model: workersai("@cf/mistral/mistral-7b-instruct-v0.2-lora", {
+				lora: "my-french-adapter",
+			}),
+			prompt: "Say hello in French",
+		});
+
+		expect(result.text).toBe("Bonjour");
+		expect(capturedUrl).toBe(
+			`https://api.cloudflare.com/client/v4/accounts/${TEST_ACCOUNT_ID}/ai/run/@cf/mistral/mistral-7b-instruct-v0.2-lora`,
+		);
+		expect(capturedBody.lora).toBe("my-french-adapter");
+	});
+
+	it("should cancel the upstream request when the call is aborted", async () => {
+		let upstreamAborted = false;
+
+		const workersai = createWorkersAI({
+			apiKey: TEST_API_KEY,
+			accountId: TEST_ACCOUNT_ID,
+			fetch: (_url, init) =>
+				new Promise<Response>((_resolve, reject) => {
+					init?.signal?.addEventListener("abort", () => {
+						upstreamAborted = true;
+						reject(init.signal!.reason);
+					});
+				}),
+		});
+
+		const controller = new AbortController();
+
+		const result = streamText({
+			model: workersai(TEST_MODEL),
+			prompt: "Write a long essay",
+			abortSignal: controller.signal,
+		});
+
+		setTimeout(() => controller.abort(), 10);
+
+		const errors: unknown[] = [];
+		for await (const part of result.fullStream) {
+			if (part.type === "error") {
+				errors.push(part.error);
+			}
+		}
+
+		expect(upstreamAborted).toBe(true);
+		expect(errors).toMatchObject([{ name: "AbortError" }]);
+	});
 });
 
 describe("Binding - Text Generation Tests", () => {
@@ -150,4 +360,222 @@ describe("Binding - Text Generation Tests", () => {
 		expect(capturedOptions).toHaveProperty("aBool", true);
 		expect(capturedOptions).toHaveProperty("aNumber", 1);
 	});
+
+	it("should map the upstream finish reason", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					return { response: "Hello, this is a trunc", finish_reason: "length" };
+				},
+			},
+		});
+
+		const result = await generateText({
+			model: workersai(TEST_MODEL),
+			prompt: "Write a greeting",
+		});
+
+		expect(result.finishReason).toBe("length");
+	});
+
+	it("should read the finish reason from OpenAI-style choices", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					return {
+						response: "Hello",
+						choices: [{ index: 0, finish_reason: "content_filter" }],
+					};
+				},
+			},
+		});
+
+		const result = await generateText({
+			model: workersai(TEST_MODEL),
+			prompt: "Write a greeting",
+		});
+
+		expect(result.finishReason).toBe("content-filter");
+	});
+
+	it("should report tool-calls when the model calls a tool", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					return {
+						tool_calls: [{ name: "get_weather", arguments: { location: "London" } }],
+					};
+				},
+			},
+		});
+
+		const result = await generateText({
+			model: workersai(TEST_MODEL),
+			prompt: "Get the weather in London",
+			tools: {
+				get_weather: {
+					description: "Get the weather in a location",
+					parameters: z.object({ location: z.string() }),
+				},
+			},
+		});
+
+		expect(result.finishReason).toBe("tool-calls");
+	});
+
+	it("should send the sampling settings to the model", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return { response: "Hello" };
+				},
+			},
+		});
+
+		const result = await generateText({
+			model: workersai(TEST_MODEL, { repetitionPenalty: 1.1 }),
+			prompt: "Write a greeting",
+			seed: 42,
+			topK: 40,
+			frequencyPenalty: 0.5,
+			presencePenalty: 0.25,
+			stopSequences: ["\n\n"],
+		});
+
+		expect(result.warnings).toEqual([]);
+		expect(capturedInputs).toMatchObject({
+			seed: 42,
+			top_k: 40,
+			repetition_penalty: 1.1,
+			frequency_penalty: 0.5,
+			presence_penalty: 0.25,
+			stop: ["\n\n"],
+		});
+	});
+
+	it("should drop sampling settings that the model does not support", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return { response: "safe" };
+				},
+			},
+		});
+
+		const result = await generateText({
+			// @ts-expect-error llama guard is not in TextGenerationModels
+			model: workersai("@cf/meta/llama-guard-3-8b"),
+			prompt: "Is this message safe?",
+			temperature: 0,
+			seed: 42,
+			topK: 40,
+		});
+
+		expect(result.warnings).toMatchObject([
+			{ type: "unsupported-setting", setting: "topK" },
+			{ type: "unsupported-setting", setting: "seed" },
+		]);
+		expect(capturedInputs.temperature).toBe(0);
+		expect(capturedInputs.seed).toBeUndefined();
+		expect(capturedInputs.top_k).toBeUndefined();
+	});
+
+	it.each([
+		"@cf/meta/llama-2-7b-chat-int8",
+		"@cf/qwen/qwen1.5-0.5b-chat",
+		"@hf/thebloke/zephyr-7b-beta-awq",
+	] as const)("should drop the sampling settings that %s does not support", async (modelId) => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return { response: "Hello" };
+				},
+			},
+		});
+
+		const result = await generateText({
+			model: workersai(modelId, { repetitionPenalty: 1.1 }),
+			prompt: "Write a greeting",
+			seed: 42,
+			topK: 40,
+			frequencyPenalty: 0.5,
+			presencePenalty: 0.25,
+			stopSequences: ["\n\n"],
+		});
+
+		expect(result.warnings).toEqual([
+			{
+				type: "unsupported-setting",
+				setting: "topK",
+				details: `${modelId} does not support topK.`,
+			},
+			{
+				type: "unsupported-setting",
+				setting: "frequencyPenalty",
+				details: `${modelId} does not support frequencyPenalty.`,
+			},
+			{
+				type: "unsupported-setting",
+				setting: "presencePenalty",
+				details: `${modelId} does not support presencePenalty.`,
+			},
+			{
+				type: "unsupported-setting",
+				setting: "stopSequences",
+				details: `${modelId} does not support stopSequences.`,
+			},
+		]);
+		expect(capturedInputs).toMatchObject({ seed: 42, repetition_penalty: 1.1 });
+		expect(capturedInputs.top_k).toBeUndefined();
+		expect(capturedInputs.frequency_penalty).toBeUndefined();
+		expect(capturedInputs.presence_penalty).toBeUndefined();
+		expect(capturedInputs.stop).toBeUndefined();
+	});
+
+	it("should send the LoRA adapter to models that support it", async () => {
+		let capturedInputs: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs = inputs;
+					return { response: "Bonjour" };
+				},
+			},
+		});
+
+		const model = workersai("@cf/google/gemma-7b-it-lora", { lora: "my-french-adapter" });
+		const { rawCall } = await model.doGenerate({
+			inputFormat: "prompt",
+			mode: { type: "regular" },
+			prompt: [{ role: "user", content: [{ type: "text", text: "Say hello in French" }] }],
+		});
+
+		expect(capturedInputs.lora).toBe("my-french-adapter");
+		expect(rawCall.rawSettings).toMatchObject({ lora: "my-french-adapter" });
+	});
+
+	it("should reject LoRA adapters on models without LoRA support", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => ({ response: "Hello" }),
+			},
+		});
+
+		await expect(
+			generateText({
+				model: workersai(TEST_MODEL, { lora: "my-adapter" }),
+				prompt: "Hello",
+			}),
+		).rejects.toThrow(`${TEST_MODEL} does not support LoRA adapters.`);
+	});
 });
@@ -0,0 +1,182 @@
+import type { LanguageModelV1Prompt } from "@ai-sdk/provider";
+import { generateText } from "ai";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { convertToWorkersAIChatMessages } from "../src/convert-to-workersai-chat-messages";
+import { createWorkersAI } from "../src/index";
+
+const parallelCallPrompt: LanguageModelV1Prompt = [
+	{ role: "user", content: [{ type: "text", text: "Weather in London and Paris?" }] },
+	{
+		role: "assistant",
+		content: [
+			{ type: "text", text: "Let me check." },
+			{
+				type: "tool-call",
+				toolCallId: "call_london",
+				toolName: "get_weather",
+				args: { location: "London" },
+			},
+			{
+				type: "tool-call",
+				toolCallId: "call_paris",
+				toolName: "get_weather",
+				args: { location: "Paris" },
+			},
+		],
+	},
+	{
+		role: "tool",
+		content: [
+			{
+				type: "tool-result",
+				toolCallId: "call_london",
+				toolName: "get_weather",
+				result: "Raining",
+			},
+			{
+				type: "tool-result",
+				toolCallId: "call_paris",
+				toolName: "get_weather",
+				result: "Sunny",
+			},
+		],
+	},
+];
+
+describe("convertToWorkersAIChatMessages - tool calls", () => {
+	it("should keep every tool call with its id and link the results by id", async () => {
+		const { messages } = await convertToWorkersAIChatMessages(parallelCallPrompt);
+
+		expect(messages.slice(1)).toEqual([
+			{
+				role: "assistant",
+				content: "Let me check.",
+				tool_calls: [
+					{
+						id: "call_london",
+						type: "function",
+						function: { name: "get_weather", arguments: '{"location":"London"}' },
+					},
+					{
+						id: "call_paris",
+						type: "function",
+						function: { name: "get_weather", arguments: '{"location":"Paris"}' },
+					},
+				],
+			},
+			{
+				role: "tool",
+				tool_call_id: "call_london",
+				name: "get_weather",
+				content: '"Raining"',
+			},
+			{ role: "tool", tool_call_id: "call_paris", name: "get_weather", content: '"Sunny"' },
+		]);
+	});
+
+	it("should write the calls into the content for Llama models", async () => {
+		const { messages } = await convertToWorkersAIChatMessages(parallelCallPrompt, {
+			toolCallFormat: "llama",
+		});
+
+		expect(messages[1]!.content).toBe(
+			[
+				"Let me check.",
+				'{"name":"get_weather","parameters":{"location":"London"}}',
+				'{"name":"get_weather","parameters":{"location":"Paris"}}',
+			].join("\n"),
+		);
+	});
+
+	it("should write the calls into the content for Hermes models", async () => {
+		const { messages } = await convertToWorkersAIChatMessages(parallelCallPrompt, {
+			toolCallFormat: "hermes",
+		});
+
+		expect(messages[1]!.content).toBe(
+			[
+				"Let me check.",
+				"<tool_call>",
+				'{"name":"get_weather","arguments":{"location":"London"}}',
+				"</tool_call>",
+				"<tool_call>",
+				'{"name":"get_weather","arguments":{"location":"Paris"}}',
+				"</tool_call>",
+			].join("\n"),
+		);
+	});
+
+	it("should use 9 character ids for Mistral models", async () => {
+		const { messages } = await convertToWorkersAIChatMessages(parallelCallPrompt, {
+			toolCallFormat: "mistral",
+		});
+
+		const [assistant, londonResult, parisResult] = messages.slice(1) as any[];
+		const [londonCall, parisCall] = assistant.tool_calls;
+
+		expect(londonCall.id).toMatch(/^[a-zA-Z0-9]{9}$/);
+		expect(parisCall.id).toMatch(/^[a-zA-Z0-9]{9}$/);
+		expect(londonCall.id).not.toBe(parisCall.id);
+		expect(londonResult.tool_call_id).toBe(londonCall.id);
+		expect(parisResult.tool_call_id).toBe(parisCall.id);
+	});
+});
+
+describe("Binding - Tool Call Round Trip", () => {
+	it("should send the tool call ids back on the next step", async () => {
+		const capturedMessages: any[] = [];
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedMessages.push(inputs.messages);
+					if (capturedMessages.length === 1) {
+						return {
+							tool_calls: [
+								{
+									id: "call_1",
+									type: "function",
+									function: {
+										name: "get_weather",
+										arguments: '{"location":"London"}',
+									},
+								},
+							],
+						};
+					}
+					return { response: "It is raining in London." };
+				},
+			},
+		});
+
+		const result = await generateText({
+			model: workersai("@cf/meta/llama-4-scout-17b-16e-instruct"),
+			prompt: "What is the weather in London?",
+			maxSteps: 2,
+			tools: {
+				get_weather: {
+					description: "Get the weather in a location",
+					parameters: z.object({ location: z.string() }),
+					execute: async () => "Raining",
+				},
+			},
+		});
+
+		expect(result.text).toBe("It is raining in London.");
+		expect(capturedMessages[1].slice(1)).toEqual([
+			{
+				role: "assistant",
+				content: "",
+				tool_calls: [
+					{
+						id: "call_1",
+						type: "function",
+						function: { name: "get_weather", arguments: '{"location":"London"}' },
+					},
+				],
+			},
+			{ role: "tool", tool_call_id: "call_1", name: "get_weather", content: '"Raining"' },
+		]);
+	});
+});
@@ -0,0 +1,127 @@
+import { experimental_transcribe as transcribe } from "ai";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { createWorkersAI } from "../src/index";
+
+const TEST_ACCOUNT_ID = "test-account-id";
+const TEST_API_KEY = "test-api-key";
+const TURBO_MODEL = "@cf/openai/whisper-large-v3-turbo";
+
+const audio = new Uint8Array([1, 2, 3, 4]);
+
+const turboOutput = {
+	transcription_info: { language: "en", duration: 2.5 },
+	text: "Hello world. Goodbye.",
+	segments: [
+		{
+			start: 0,
+			end: 1.5,
+			text: " Hello world.",
+			words: [
+				{ word: "Hello", start: 0, end: 0.5 },
+				{ word: "world.", start: 0.6, end: 1.5 },
+			],
+		},
+		{
+			start: 1.5,
+			end: 2.5,
+			text: " Goodbye.",
+			words: [{ word: "Goodbye.", start: 1.5, end: 2.5 }],
+		},
+	],
+	vtt: "WEBVTT\n\n00:00.000 --> 00:01.500\nHello world.",
+};
+
+const server = setupServer();
+
+describe("REST API - Transcription Tests", () => {
+	beforeAll(() => server.listen());
+	afterEach(() => server.resetHandlers());
+	afterAll(() => server.close());
+
+	it("should send base64 audio and the settings to whisper large v3 turbo", async () => {
+		let capturedBody: any = null;
+
+		server.use(
+			http.post(
+				`https://api.cloudflare.com/client/v4/accounts/${TEST_ACCOUNT_ID}/ai/run/${TURBO_MODEL}`,
+				async ({ request }) => {
+					capturedBody = await request.json();
+					return HttpResponse.json({ result: turboOutput });
+				},
+			),
+		);
+
+		const workersai = createWorkersAI({
+			apiKey: TEST_API_KEY,
+			accountId: TEST_ACCOUNT_ID,
+		});
+
+		const result = await transcribe({
+			model: workersai.transcription(TURBO_MODEL, { language: "en", vadFilter: true }),
+			audio,
+		});
+
+		expect(capturedBody).toEqual({ audio: "AQIDBA==", language: "en", vad_filter: true });
+		expect(result.text).toBe("Hello world. Goodbye.");
+		expect(result.language).toBe("en");
+		expect(result.durationInSeconds).toBe(2.5);
+		expect(result.segments).toEqual([
+			{ text: "Hello world.", startSecond: 0, endSecond: 1.5 },
+			{ text: "Goodbye.", startSecond: 1.5, endSecond: 2.5 },
+		]);
+		expect(result.providerMetadata.workersai).toEqual({
+			words: [
+				{ word: "Hello", startSecond: 0, endSecond: 0.5 },
+				{ word: "world.", startSecond: 0.6, endSecond: 1.5 },
+				{ word: "Goodbye.", startSecond: 1.5, endSecond: 2.5 },
+			],
+			vtt: turboOutput.vtt,
+		});
+	});
+});
+
+describe("Binding - Transcription Tests", () => {
+	it("should send audio bytes to whisper and time the words", async () => {
+		let capturedInputs: any = null;
+		let capturedOptions: any = null;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any, options: any) => {
+					capturedInputs = inputs;
+					capturedOptions = options;
+					return {
+						text: "Hello world",
+						word_count: 2,
+						words: [
+							{ word: "Hello", start: 0, end: 0.4 },
+							{ word: "world", start: 0.5, end: 0.9 },
+						],
+						vtt: "WEBVTT",
+					};
+				},
+			},
+			gateway: { id: "my-gateway" },
+		});
+
+		const result = await transcribe({
+			model: workersai.transcription("@cf/openai/whisper", { language: "de" }),
+			audio: "AQIDBA==",
+		});
+
+		expect(capturedInputs).toEqual({ audio: [1, 2, 3, 4] });
+		expect(capturedOptions.gateway).toEqual({ id: "my-gateway" });
+		expect(result.segments).toEqual([
+			{ text: "Hello", startSecond: 0, endSecond: 0.4 },
+			{ text: "world", startSecond: 0.5, endSecond: 0.9 },
+		]);
+		expect(result.durationInSeconds).toBe(0.9);
+		expect(result.language).toBeUndefined();
+		expect(result.providerMetadata.workersai!.vtt).toBe("WEBVTT");
+		expect(result.warnings).toEqual([
+			{ type: "other", message: "@cf/openai/whisper does not support the language setting." },
+		]);
+	});
+});
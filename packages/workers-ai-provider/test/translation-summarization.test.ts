@@ -0,0 +1,244 @@
+import {
+	APICallError,
+	InvalidArgumentError,
+	UnsupportedFunctionalityError,
+} from "@ai-sdk/provider";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { createWorkersAI } from "../src/index";
+import { splitText } from "../src/split-text";
+
+const TEST_ACCOUNT_ID = "test-account-id";
+const TEST_API_KEY = "test-api-key";
+const TRANSLATION_MODEL = "@cf/meta/m2m100-1.2b";
+const SUMMARIZATION_MODEL = "@cf/facebook/bart-large-cnn";
+
+describe("splitText", () => {
+	it("should split at sentence and line breaks and keep the text", () => {
+		const text = "First sentence. Second one!\nA new line that is longer than the limit";
+		const chunks = splitText(text, 30);
+
+		expect(chunks).toEqual([
+			"First sentence. Second one!\nA ",
+			"new line that is longer than ",
+			"the limit",
+		]);
+		expect(chunks.join("")).toBe(text);
+	});
+});
+
+const server = setupServer();
+
+describe("REST API - Translation and Summarization Tests", () => {
+	beforeAll(() => server.listen());
+	afterEach(() => server.resetHandlers());
+	afterAll(() => server.close());
+
+	it("should translate a text", async () => {
+		let capturedBody: any = null;
+
+		server.use(
+			http.post(
+				`https://api.cloudflare.com/client/v4/accounts/${TEST_ACCOUNT_ID}/ai/run/${TRANSLATION_MODEL}`,
+				async ({ request }) => {
+					capturedBody = await request.json();
+					return HttpResponse.json({ result: { translated_text: "Bonjour" } });
+				},
+			),
+		);
+
+		const workersai = createWorkersAI({
+			apiKey: TEST_API_KEY,
+			accountId: TEST_ACCOUNT_ID,
+		});
+
+		const result = await workersai
+			.translation(TRANSLATION_MODEL)
+			.doTranslate({ text: "Hello", targetLanguage: "fr" });
+
+		expect(result.text).toBe("Bonjour");
+		expect(capturedBody).toEqual({ text: "Hello", source_lang: "en", target_lang: "fr" });
+	});
+
+	it("should throw an APICallError when the summarization fails", async () => {
+		server.use(
+			http.post(
+				`https://api.cloudflare.com/client/v4/accounts/${TEST_ACCOUNT_ID}/ai/run/${SUMMARIZATION_MODEL}`,
+				() =>
+					HttpResponse.json(
+						{ success: false, errors: [{ code: 5006, message: "Invalid input" }] },
+						{ status: 400 },
+					),
+			),
+		);
+
+		const workersai = createWorkersAI({
+			apiKey: TEST_API_KEY,
+			accountId: TEST_ACCOUNT_ID,
+		});
+
+		const error = await workersai
+			.summarization(SUMMARIZATION_MODEL)
+			.doSummarize({ text: "A long article." })
+			.catch((error) => error);
+
+		expect(APICallError.isInstance(error)).toBe(true);
+		expect(error.statusCode).toBe(400);
+	});
+});
+
+describe("Binding - Translation and Summarization Tests", () => {
+	it("should translate long texts in chunks and keep the line breaks", async () => {
+		const capturedTexts: string[] = [];
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedTexts.push(inputs.text);
+					return { translated_text: `[${inputs.text}]` };
+				},
+			},
+		});
+
+		const result = await workersai
+			.translation(TRANSLATION_MODEL, { maxChunkLength: 20 })
+			.doTranslate({
+				text: "Good morning.\n\nHow are you today?",
+				sourceLanguage: "en",
+				targetLanguage: "de",
+			});
+
+		expect(capturedTexts).toEqual(["Good morning.", "How are you today?"]);
+		expect(result.text).toBe("[Good morning.]\n\n[How are you today?]");
+	});
+
+	it("should translate at most maxConcurrency chunks at the same time", async () => {
+		let running = 0;
+		let maxRunning = 0;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					running++;
+					maxRunning = Math.max(maxRunning, running);
+					await new Promise((resolve) => setTimeout(resolve, 1));
+					running--;
+					return { translated_text: inputs.text.toUpperCase() };
+				},
+			},
+		});
+
+		const result = await workersai
+			.translation(TRANSLATION_MODEL, { maxChunkLength: 10, maxConcurrency: 2 })
+			.doTranslate({ text: "One. Two. Three. Four. Five. Six.", targetLanguage: "de" });
+
+		expect(result.text).toBe("ONE. TWO. THREE. FOUR. FIVE. SIX.");
+		expect(maxRunning).toBe(2);
+	});
+
+	it("should reject unsupported language codes", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => {
+					throw new Error("should not be called");
+				},
+			},
+		});
+
+		const error = await workersai
+			.translation(TRANSLATION_MODEL)
+			.doTranslate({ text: "Hello", targetLanguage: "french" })
+			.catch((error) => error);
+
+		expect(InvalidArgumentError.isInstance(error)).toBe(true);
+		expect(error.argument).toBe("targetLanguage");
+	});
+
+	it("should throw when the model returns no translation", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => ({}),
+			},
+		});
+
+		await expect(
+			workersai
+				.translation(TRANSLATION_MODEL)
+				.doTranslate({ text: "Hello", targetLanguage: "fr" }),
+		).rejects.toThrow(`${TRANSLATION_MODEL} did not return a translation.`);
+	});
+
+	it("should summarize the summaries of long texts", async () => {
+		const capturedInputs: any[] = [];
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any, options: any) => {
+					capturedInputs.push({ ...inputs, gateway: options.gateway });
+					return { summary: ` S${capturedInputs.length}` };
+				},
+			},
+			gateway: { id: "my-gateway" },
+		});
+
+		const result = await workersai
+			.summarization(SUMMARIZATION_MODEL, { maxChunkLength: 25, maxLength: 64 })
+			.doSummarize({ text: "The first long part. The second long part." });
+
+		expect(capturedInputs).toEqual([
+			{ input_text: "The first long part. ", max_length: 64, gateway: { id: "my-gateway" } },
+			{ input_text: "The second long part.", max_length: 64, gateway: { id: "my-gateway" } },
+			{ input_text: "S1\n\nS2", max_length: 64, gateway: { id: "my-gateway" } },
+		]);
+		expect(result.text).toBe("S3");
+	});
+
+	it("should stop summarizing when the summaries do not get shorter", async () => {
+		let calls = 0;
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					calls++;
+					return { summary: `${inputs.input_text.trim()} And more.` };
+				},
+			},
+		});
+
+		const result = await workersai
+			.summarization(SUMMARIZATION_MODEL, { maxChunkLength: 25 })
+			.doSummarize({ text: "The first long part. The second long part." });
+
+		expect(calls).toBe(2);
+		expect(result.text).toBe(
+			"The first long part. And more.\n\nThe second long part. And more.",
+		);
+	});
+});
+
+describe("OpenAI-compatible backend - Translation and Summarization Tests", () => {
+	it("should throw UnsupportedFunctionalityError without calling the server", async () => {
+		let requests = 0;
+
+		const workersai = createWorkersAI({
+			openAICompatible: {
+				baseURL: "http://localhost:11434/v1",
+				fetch: async () => {
+					requests++;
+					return Response.json({ data: [{ embedding: [0.1] }] });
+				},
+			},
+		});
+
+		await expect(
+			workersai
+				.translation(TRANSLATION_MODEL)
+				.doTranslate({ text: "Hello", targetLanguage: "fr" }),
+		).rejects.toSatisfy(UnsupportedFunctionalityError.isInstance);
+		await expect(
+			workersai.summarization(SUMMARIZATION_MODEL).doSummarize({ text: "Hello" }),
+		).rejects.toSatisfy(UnsupportedFunctionalityError.isInstance);
+		expect(requests).toBe(0);
+	});
+});
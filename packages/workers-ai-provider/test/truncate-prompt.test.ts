@@ -0,0 +1,305 @@
+import type { LanguageModelV1Prompt } from "@ai-sdk/provider";
+import { generateText, jsonSchema, streamText } from "ai";
+import { describe, expect, it } from "vitest";
+import { createWorkersAI } from "../src/index";
+import { estimatePromptTokens, truncatePromptToFit } from "../src/truncate-prompt";
+
+const TEST_MODEL = "@cf/meta/llama-3.1-8b-instruct";
+
+const text = (tokens: number) => "x".repeat(tokens * 4);
+
+const user = (content: string): LanguageModelV1Prompt[number] => ({
+	role: "user",
+	content: [{ type: "text", text: content }],
+});
+
+const assistant = (content: string): LanguageModelV1Prompt[number] => ({
+	role: "assistant",
+	content: [{ type: "text", text: content }],
+});
+
+const notCalled = async () => {
+	throw new Error("summarize should not be called");
+};
+
+describe("truncatePromptToFit", () => {
+	it("should return prompts that fit unchanged", async () => {
+		const prompt = [user("Hello")];
+
+		const result = await truncatePromptToFit({
+			prompt,
+			contextWindow: 1000,
+			reservedTokens: 100,
+			summarize: notCalled,
+		});
+
+		expect(result.prompt).toBe(prompt);
+		expect(result.warnings).toEqual([]);
+	});
+
+	it("should drop the oldest turns and keep the system message and the latest turn", async () => {
+		const prompt: LanguageModelV1Prompt = [
+			{ role: "system", content: "You are helpful." },
+			user(text(300)),
+			assistant(text(300)),
+			user("What is the latest news?"),
+		];
+
+		const result = await truncatePromptToFit({
+			prompt,
+			contextWindow: 700,
+			reservedTokens: 256,
+			summarize: notCalled,
+		});
+
+		expect(result.prompt).toEqual([prompt[0], prompt[3]]);
+		expect(result.warnings).toEqual([
+			{
+				type: "other",
+				message: "Dropped the 2 oldest message(s) to fit the context window of 700 tokens.",
+			},
+		]);
+	});
+
+	it("should trim oversized tool results before dropping turns", async () => {
+		const prompt: LanguageModelV1Prompt = [
+			user("List my tasks"),
+			{
+				role: "assistant",
+				content: [
+					{ type: "tool-call", toolCallId: "call_1", toolName: "listTasks", args: {} },
+				],
+			},
+			{
+				role: "tool",
+				content: [
+					{
+						type: "tool-result",
+						toolCallId: "call_1",
+						toolName: "listTasks",
+						result: text(2000),
+					},
+				],
+			},
+		];
+
+		const result = await truncatePromptToFit({
+			prompt,
+			contextWindow: 1000,
+			reservedTokens: 200,
+			summarize: notCalled,
+		});
+
+		const [toolResult] = (result.prompt[2] as any).content;
+		expect(toolResult.result).toMatch(/\.\.\. \[truncated\]$/);
+		expect(estimatePromptTokens(result.prompt)).toBeLessThanOrEqual(800);
+		expect(result.warnings).toEqual([
+			{
+				type: "other",
+				message:
+					"Trimmed 1 tool result(s) to 200 tokens to fit the context window of 1000 tokens.",
+			},
+		]);
+	});
+
+	it("should replace the oldest turns with a summary", async () => {
+		const transcripts: string[] = [];
+
+		const result = await truncatePromptToFit({
+			prompt: [user(`My name is Ada. ${text(400)}`), assistant("Hi Ada!"), user("Who am I?")],
+			contextWindow: 600,
+			reservedTokens: 256,
+			strategy: "summarize",
+			summarize: async (transcript) => {
+				transcripts.push(transcript);
+				return "The user is called Ada.";
+			},
+		});
+
+		expect(transcripts).toHaveLength(1);
+		expect(transcripts[0]).toMatch(/^user: My name is Ada\./);
+		expect(transcripts[0]).toMatch(/assistant: Hi Ada!$/);
+		expect(result.prompt).toEqual([
+			{
+				role: "system",
+				content: "Summary of the earlier conversation:\nThe user is called Ada.",
+			},
+			user("Who am I?"),
+		]);
+		expect(result.warnings).toMatchObject([
+			{
+				message:
+					"Summarized the 2 oldest message(s) to fit the context window of 600 tokens.",
+			},
+		]);
+	});
+
+	it("should warn when the prompt still does not fit", async () => {
+		const result = await truncatePromptToFit({
+			prompt: [{ role: "system", content: text(1000) }, user("Hello")],
+			contextWindow: 1000,
+			reservedTokens: 256,
+			summarize: notCalled,
+		});
+
+		expect(result.warnings).toMatchObject([
+			{
+				type: "other",
+				message: expect.stringContaining("leaves less than 256 of the 1000 tokens"),
+			},
+		]);
+	});
+});
+
+describe("Binding - Prompt Truncation", () => {
+	const history = [
+		{ role: "user" as const, content: text(5000) },
+		{ role: "assistant" as const, content: text(3000) },
+		{ role: "user" as const, content: "And now?" },
+	];
+
+	it("should truncate prompts to the context window of the model", async () => {
+		let capturedMessages: any[] = [];
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedMessages = inputs.messages;
+					return { response: "Hello" };
+				},
+			},
+		});
+
+		const result = await generateText({
+			model: workersai(TEST_MODEL, { truncatePrompt: true }),
+			messages: history,
+		});
+
+		expect(capturedMessages).toEqual([{ role: "user", content: "And now?" }]);
+		expect(result.warnings).toMatchObject([
+			{
+				type: "other",
+				message:
+					"Dropped the 2 oldest message(s) to fit the context window of 7968 tokens.",
+			},
+		]);
+	});
+
+	it("should summarize the oldest turns with the model when streaming", async () => {
+		const capturedInputs: any[] = [];
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs.push(inputs);
+					if (!inputs.stream) {
+						return { response: "Two long messages." };
+					}
+					return new ReadableStream<Uint8Array>({
+						start(controller) {
+							controller.enqueue(
+								new TextEncoder().encode(
+									'data: {"response":"Hello"}\n\ndata: [DONE]\n\n',
+								),
+							);
+							controller.close();
+						},
+					});
+				},
+			},
+		});
+
+		const result = streamText({
+			model: workersai(TEST_MODEL, {
+				truncatePrompt: { strategy: "summarize", contextWindow: 4000 },
+			}),
+			messages: history,
+		});
+
+		let streamedText = "";
+		for await (const chunk of result.textStream) {
+			streamedText += chunk;
+		}
+
+		expect(streamedText).toBe("Hello");
+		expect(capturedInputs).toHaveLength(2);
+		expect(capturedInputs[0].max_tokens).toBe(512);
+		expect(capturedInputs[1].messages).toEqual([
+			{ role: "system", content: "Summary of the earlier conversation:\nTwo long messages." },
+			{ role: "user", content: "And now?" },
+		]);
+		expect(await result.warnings).toMatchObject([
+			{
+				message:
+					"Summarized the 2 oldest message(s) to fit the context window of 4000 tokens.",
+			},
+		]);
+	});
+
+	it("should summarize once when the stream is simulated", async () => {
+		let summarizeCalls = 0;
+		const capturedInputs: any[] = [];
+
+		const workersai = createWorkersAI({
+			binding: {
+				run: async (_modelName: string, inputs: any) => {
+					capturedInputs.push(inputs);
+					if (
+						inputs.messages[0].content.startsWith(
+							"Summarize the following conversation",
+						)
+					) {
+						summarizeCalls++;
+						return { response: "Two long messages." };
+					}
+					return { response: "Hello" };
+				},
+			},
+		});
+
+		// Streams with emulated tool calls are generated without streaming and replayed.
+		const result = streamText({
+			model: workersai(TEST_MODEL, {
+				emulateToolCalling: true,
+				truncatePrompt: { strategy: "summarize", contextWindow: 4000 },
+			}),
+			messages: history,
+			tools: {
+				get_weather: {
+					description: "Get the weather in a location",
+					parameters: jsonSchema({
+						type: "object",
+						properties: { location: { type: "string" } },
+					}),
+				},
+			},
+		});
+
+		let streamedText = "";
+		for await (const chunk of result.textStream) {
+			streamedText += chunk;
+		}
+
+		expect(streamedText).toBe("Hello");
+		expect(summarizeCalls).toBe(1);
+		expect(capturedInputs).toHaveLength(2);
+	});
+
+	it("should warn when the context window of the model is unknown", async () => {
+		const workersai = createWorkersAI({
+			binding: {
+				run: async () => ({ response: "Hello" }),
+			},
+		});
+
+		const result = await generateText({
+			// @ts-expect-error unknown models are not in TextGenerationModels
+			model: workersai("@cf/new/model", { truncatePrompt: true }),
+			prompt: "Hello",
+		});
+
+		expect(result.warnings).toMatchObject([
+			{ type: "other", message: expect.stringContaining("context window of @cf/new/model") },
+		]);
+	});
+});
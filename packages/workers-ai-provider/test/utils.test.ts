@@ -1,7 +1,15 @@
 import { describe, expect, it } from "vitest";
-import { processPartialToolCalls, processToolCalls } from "../src/utils";
+import { mergePartialToolCall, processToolCalls } from "../src/utils";
 
-describe("processPartialToolCalls", () => {
+const mergeAll = (partialCalls: any[]) => {
+	const mergedCallsByIndex: Record<number, any> = {};
+	const ids = partialCalls.map(
+		(partialCall) => mergePartialToolCall(mergedCallsByIndex, partialCall).id,
+	);
+	return { ids, result: processToolCalls({ tool_calls: Object.values(mergedCallsByIndex) }) };
+};
+
+describe("mergePartialToolCall", () => {
 	it("should merge partial tool calls by index", () => {
 		const partialCalls = [
 			{
@@ -19,7 +27,7 @@ describe("processPartialToolCalls", () => {
 				function: { arguments: 'ue"}' },
 			},
 		];
-		const result = processPartialToolCalls(partialCalls);
+		const { result } = mergeAll(partialCalls);
 		expect(result).toHaveLength(1);
 		expect(result[0].args).toBe('{"param": "value"}');
 		expect(result[0].toolName).toBe("test_func");
@@ -48,7 +56,7 @@ describe("processPartialToolCalls", () => {
 			},
 		];
 
-		const result = processPartialToolCalls(partialCalls);
+		const { result } = mergeAll(partialCalls);
 		expect(result).toHaveLength(2);
 
 		const call1 = result.find((call) => call.toolCallId === "call_1");
@@ -57,6 +65,18 @@ describe("processPartialToolCalls", () => {
 		expect(call1?.args).toBe('{"a":"value1"}');
 		expect(call2?.args).toBe('{"b":"value2"}');
 	});
+
+	it("should keep the id of a call stable when its fragments have no id", () => {
+		const { ids, result } = mergeAll([
+			{ index: 0, function: { name: "test_func", arguments: '{"a":' } },
+			{ index: 0, id: "call_late", function: { arguments: "1}" } },
+		]);
+
+		expect(ids[0]).toBeTruthy();
+		expect(ids[0]).not.toBe("test_func");
+		expect(ids[1]).toBe(ids[0]);
+		expect(result[0].toolCallId).toBe(ids[0]);
+	});
 });
 
 describe("processToolCalls", () => {
@@ -117,11 +137,12 @@ describe("processToolCalls", () => {
 		expect(result).toEqual([
 			{
 				toolCallType: "function",
-				toolCallId: "test_function",
+				toolCallId: expect.any(String),
 				toolName: "test_function",
 				args: '{"param": "value"}',
 			},
 		]);
+		expect(result[0].toolCallId).not.toBe("test_function");
 	});
 
 	it("should return empty array when no tool calls present", () => {
@@ -0,0 +1,270 @@
+import { InvalidArgumentError } from "@ai-sdk/provider";
+import type { LanguageModelV2CallOptions, LanguageModelV2StreamPart } from "@ai-sdk/provider-v2";
+import { embedMany, experimental_generateImage as generateImage, generateText } from "ai";
+import { describe, expect, it } from "vitest";
+import { createAutoRAG, createAutoRAGV2, createWorkersAI, createWorkersAIV2 } from "../src/index";
+import {
+	autoRAGOutput,
+	CHAT_MODEL,
+	createMockBinding,
+	EMBEDDING_MODEL,
+	embeddingOutput,
+	getWeatherTool,
+	IMAGE_MODEL,
+	imageOutput,
+	mockStream,
+	REASONING_MODEL,
+	reasoningOutput,
+	reasoningStreamChunks,
+	toolCallStreamChunks,
+} from "./fixtures";
+
+const call = (
+	text: string,
+	options: Partial<LanguageModelV2CallOptions> = {},
+): LanguageModelV2CallOptions => ({
+	prompt: [{ role: "user", content: [{ type: "text", text }] }],
+	...options,
+});
+
+async function readParts(stream: ReadableStream<LanguageModelV2StreamPart>) {
+	const parts: LanguageModelV2StreamPart[] = [];
+	for await (const part of stream) {
+		parts.push(part);
+	}
+	return parts;
+}
+
+describe("Binding - V2 Chat Model Tests", () => {
+	it("should return reasoning and text as content parts, like the V1 model", async () => {
+		const { binding } = createMockBinding(reasoningOutput);
+
+		const v1 = await generateText({
+			model: createWorkersAI({ binding })(REASONING_MODEL),
+			prompt: "What is 2 + 2?",
+		});
+		const v2 = await createWorkersAIV2({ binding })(REASONING_MODEL).doGenerate(
+			call("What is 2 + 2?"),
+		);
+
+		expect(v1).toMatchObject({ reasoning: "Two plus two is four.", text: "4" });
+		expect(v2.content).toEqual([
+			{ type: "reasoning", text: "Two plus two is four." },
+			{ type: "text", text: "4" },
+		]);
+		expect(v2.finishReason).toBe("stop");
+		expect(v2.usage).toEqual({ inputTokens: 9, outputTokens: 8, totalTokens: 17 });
+		expect(v2.response).toMatchObject({ modelId: REASONING_MODEL, body: reasoningOutput });
+	});
+
+	it("should stream text and reasoning as start, delta and end parts", async () => {
+		const { binding } = createMockBinding(() => mockStream(reasoningStreamChunks));
+
+		const { stream } = await createWorkersAIV2({ binding })(REASONING_MODEL).doStream(
+			call("What is 2 + 2?"),
+		);
+		const parts = await readParts(stream);
+
+		expect(parts.filter((part) => part.type !== "response-metadata")).toEqual([
+			{ type: "stream-start", warnings: [] },
+			{ type: "reasoning-start", id: "0" },
+			{ type: "reasoning-delta", id: "0", delta: "Two plus" },
+			{ type: "reasoning-delta", id: "0", delta: " two is four." },
+			{ type: "reasoning-end", id: "0" },
+			{ type: "text-start", id: "1" },
+			{ type: "text-delta", id: "1", delta: "4" },
+			{ type: "text-end", id: "1" },
+			{
+				type: "finish",
+				finishReason: "stop",
+				usage: { inputTokens: 9, outputTokens: 8, totalTokens: 17 },
+				providerMetadata: { workersai: {} },
+			},
+		]);
+	});
+
+	it("should stream tool inputs and send V2 tools and tool results", async () => {
+		const { binding, calls } = createMockBinding(() => mockStream(toolCallStreamChunks));
+
+		const { stream } = await createWorkersAIV2({ binding })(CHAT_MODEL).doStream({
+			prompt: [
+				{ role: "user", content: [{ type: "text", text: "Weather in London?" }] },
+				{
+					role: "assistant",
+					content: [
+						{
+							type: "tool-call",
+							toolCallId: "call_0",
+							toolName: "get_weather",
+							input: { location: "Paris" },
+						},
+					],
+				},
+				{
+					role: "tool",
+					content: [
+						{
+							type: "tool-result",
+							toolCallId: "call_0",
+							toolName: "get_weather",
+							output: { type: "json", value: { weather: "Sunny" } },
+						},
+					],
+				},
+			],
+			tools: [
+				{
+					type: "function",
+					name: getWeatherTool.name,
+					description: getWeatherTool.description,
+					inputSchema: getWeatherTool.parameters,
+				},
+			],
+			toolChoice: { type: "auto" },
+		});
+		const parts = await readParts(stream);
+
+		expect(calls[0]!.inputs.tools).toEqual([{ type: "function", function: getWeatherTool }]);
+		expect(calls[0]!.inputs.messages).toMatchObject([
+			{ role: "user", content: "Weather in London?" },
+			{ role: "assistant", tool_calls: [{ id: "call_0" }] },
+			{ role: "tool", tool_call_id: "call_0", content: '{"weather":"Sunny"}' },
+		]);
+		expect(parts.filter((part) => part.type.startsWith("tool"))).toEqual([
+			{ type: "tool-input-start", id: "call_1", toolName: "get_weather" },
+			{ type: "tool-input-delta", id: "call_1", delta: '{"location":' },
+			{ type: "tool-input-delta", id: "call_1", delta: '"London"}' },
+			{ type: "tool-input-end", id: "call_1" },
+			{
+				type: "tool-call",
+				toolCallId: "call_1",
+				toolName: "get_weather",
+				input: '{"location":"London"}',
+			},
+		]);
+		expect(parts.at(-1)).toMatchObject({ type: "finish", finishReason: "tool-calls" });
+	});
+
+	it("should send a JSON response format as a JSON schema", async () => {
+		const { binding, calls } = createMockBinding({ response: { answer: 4 } });
+		const schema = { type: "object", properties: { answer: { type: "number" } } };
+
+		const { content } = await createWorkersAIV2({ binding })(CHAT_MODEL).doGenerate(
+			call("What is 2 + 2?", { responseFormat: { type: "json", schema } }),
+		);
+
+		expect(calls[0]!.inputs.response_format).toEqual({
+			type: "json_schema",
+			json_schema: schema,
+		});
+		expect(content).toEqual([{ type: "text", text: '{"answer":4}' }]);
+	});
+
+	it("should override settings with provider options and leave unknown usage undefined", async () => {
+		const { binding, calls } = createMockBinding({ response: "Hello" });
+
+		const { warnings, usage } = await createWorkersAIV2({ binding })(CHAT_MODEL).doGenerate(
+			call("Hi", {
+				maxOutputTokens: 10,
+				providerOptions: { workersai: { repetitionPenalty: 1.2, customOption: "a" } },
+			}),
+		);
+
+		expect(calls[0]!.inputs).toMatchObject({ max_tokens: 10, repetition_penalty: 1.2 });
+		expect(calls[0]!.options).toMatchObject({ customOption: "a" });
+		expect(warnings).toEqual([]);
+		expect(usage).toEqual({
+			inputTokens: undefined,
+			outputTokens: undefined,
+			totalTokens: undefined,
+		});
+	});
+
+	it("should reject invalid provider options", async () => {
+		const { binding, calls } = createMockBinding({ response: "Hello" });
+
+		await expect(
+			createWorkersAIV2({ binding })(CHAT_MODEL).doGenerate(
+				call("Hi", { providerOptions: { workersai: { repetitionPenalty: "high" } } }),
+			),
+		).rejects.toSatisfy(InvalidArgumentError.isInstance);
+		expect(calls).toHaveLength(0);
+	});
+});
+
+describe("Binding - V2 AutoRAG Model Tests", () => {
+	it("should return the files of the answer as sources", async () => {
+		const binding = { aiSearch: async () => autoRAGOutput } as unknown as AutoRAG;
+
+		const v1 = await generateText({
+			model: createAutoRAG({ binding })(),
+			prompt: "When was the lighthouse built?",
+		});
+		const v2 = await createAutoRAGV2({ binding })().doGenerate(
+			call("When was the lighthouse built?"),
+		);
+
+		const source = {
+			sourceType: "url",
+			id: "file-1",
+			url: "history.md",
+			providerMetadata: { attributes: { score: 0.9 } },
+		};
+		expect(v1.sources).toMatchObject([source]);
+		expect(v2.content).toMatchObject([
+			{ type: "text", text: autoRAGOutput.response },
+			{ type: "source", ...source },
+		]);
+	});
+});
+
+describe("Binding - V2 Embedding and Image Model Tests", () => {
+	it("should embed values like the V1 model, with provider options as run options", async () => {
+		const { binding, calls } = createMockBinding(embeddingOutput);
+
+		const v1 = await embedMany({
+			model: createWorkersAI({ binding }).textEmbedding(EMBEDDING_MODEL),
+			values: ["a", "b"],
+		});
+		const model = createWorkersAIV2({ binding, gateway: { id: "my-gateway" } }).textEmbedding(
+			EMBEDDING_MODEL,
+		);
+		const v2 = await model.doEmbed({
+			values: ["a", "b"],
+			providerOptions: { workersai: { customOption: "a" } },
+		});
+
+		expect(model.specificationVersion).toBe("v2");
+		expect(model.maxEmbeddingsPerCall).toBe(3000);
+		expect(v2.embeddings).toEqual(v1.embeddings);
+		expect(v2.providerMetadata).toEqual({ workersai: {} });
+		expect(calls[1]!.options).toMatchObject({
+			gateway: { id: "my-gateway" },
+			customOption: "a",
+		});
+	});
+
+	it("should generate images like the V1 model", async () => {
+		const { binding, calls } = createMockBinding(imageOutput);
+
+		const { image } = await generateImage({
+			model: createWorkersAI({ binding }).image(IMAGE_MODEL),
+			prompt: "A lighthouse",
+		});
+		const model = createWorkersAIV2({ binding }).image(IMAGE_MODEL);
+		const v2 = await model.doGenerate({
+			prompt: "A lighthouse",
+			n: 2,
+			size: undefined,
+			aspectRatio: undefined,
+			seed: undefined,
+			providerOptions: { workersai: { numSteps: 4 } },
+		});
+
+		expect(model.maxImagesPerCall).toBe(4);
+		expect(v2.images).toEqual([image.uint8Array, image.uint8Array]);
+		expect(v2.warnings).toEqual([]);
+		expect(v2.providerMetadata).toEqual({ workersai: { images: [] } });
+		expect(calls[1]!.inputs).toEqual({ prompt: "A lighthouse", steps: 4 });
+	});
+});